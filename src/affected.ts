@@ -0,0 +1,211 @@
+import path from "path";
+import type { ChalkInstance } from "chalk";
+import { gitTopLevel, listChangedFiles } from "./diff.js";
+import {
+  CRITICAL_REBUILD_PATTERNS,
+  buildEdgeMapFromReport,
+  generateDependencyReport as defaultGenerateDependencyReport,
+  resolvePackageForFile,
+} from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import type { DependencyReport, ReportScanOptions } from "./types.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+
+export interface AffectedPackagesResult {
+  /** Packages owning at least one changed file. */
+  changedPackages: string[];
+  /** Changed packages plus every package depending on them, transitively. */
+  affectedPackages: string[];
+  /** Changed root-level config files (package.json, tsconfig, ...). */
+  configFiles: string[];
+  /** Changed files no workspace package owns. */
+  unownedFiles: string[];
+}
+
+export interface AffectedPackagesOptions {
+  /** Treat every package as affected when a root-level config file changed. */
+  includeConfig?: boolean;
+}
+
+/**
+ * Map changed files to their owning packages and walk the internal graph
+ * backwards to collect every dependent. Paths are absolute or relative to the
+ * report root.
+ */
+export function findAffectedPackages(
+  report: DependencyReport,
+  files: string[],
+  { includeConfig = false }: AffectedPackagesOptions = {},
+): AffectedPackagesResult {
+  const root = path.resolve(report.rootDir);
+  const rootPackages = new Set(
+    report.packages
+      .filter((pkg) => pkg.relativeDir === "." || pkg.relativeDir === "")
+      .map((pkg) => pkg.name),
+  );
+  const pkgDirMap = new Map(
+    report.packages.map((pkg) => [
+      path.resolve(root, pkg.relativeDir),
+      pkg.name,
+    ]),
+  );
+
+  const changed = new Set<string>();
+  const configFiles: string[] = [];
+  const unownedFiles: string[] = [];
+  for (const file of files) {
+    const absolute = path.resolve(root, file);
+    const relative = path.relative(root, absolute).split(path.sep).join("/");
+    const owner = resolvePackageForFile(absolute, pkgDirMap);
+    const isOutsideRoot =
+      relative.startsWith("../") || path.isAbsolute(relative);
+    if (
+      !isOutsideRoot &&
+      (!owner || rootPackages.has(owner)) &&
+      CRITICAL_REBUILD_PATTERNS.some((pattern) => pattern.test(relative))
+    ) {
+      configFiles.push(relative);
+    }
+    if (owner) {
+      changed.add(owner);
+    } else {
+      unownedFiles.push(isOutsideRoot ? absolute : relative);
+    }
+  }
+
+  const dependents = new Map<string, string[]>();
+  for (const [source, targets] of buildEdgeMapFromReport(report)) {
+    for (const target of targets) {
+      dependents.set(target, [...(dependents.get(target) ?? []), source]);
+    }
+  }
+
+  const affected =
+    includeConfig && configFiles.length > 0
+      ? new Set(report.packages.map((pkg) => pkg.name))
+      : new Set(changed);
+  const queue = Array.from(affected);
+  while (queue.length > 0) {
+    for (const dependent of dependents.get(queue.shift()!) ?? []) {
+      if (affected.has(dependent)) continue;
+      affected.add(dependent);
+      queue.push(dependent);
+    }
+  }
+
+  return {
+    changedPackages: Array.from(changed).sort(),
+    affectedPackages: Array.from(affected).sort(),
+    configFiles: configFiles.sort(),
+    unownedFiles: unownedFiles.sort(),
+  };
+}
+
+export function parseFileList(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolve paths as `git diff --name-only` prints them: relative to the top
+ * level of the work tree holding `cwd`, or to `cwd` outside a repository.
+ */
+export async function resolveGitPaths(
+  files: string[],
+  cwd: string,
+): Promise<string[]> {
+  if (files.length === 0) return [];
+  const base = (await gitTopLevel(cwd)) ?? cwd;
+  return files.map((file) => path.resolve(base, file));
+}
+
+export interface RunAffectedOptions extends AffectedPackagesOptions {
+  rootDir: string;
+  /** Changed files, relative to the current directory. */
+  files?: string[];
+  /** Changed files read from stdin, relative to the git top-level. */
+  stdinFiles?: string[];
+  /** Git ref to diff the working tree against for the changed files. */
+  base?: string;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  /** Print the whole result as JSON instead of one package per line. */
+  json?: boolean;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+export async function runAffected({
+  rootDir,
+  files = [],
+  stdinFiles = [],
+  base,
+  includeConfig,
+  reportOptions = {},
+  json = false,
+  generateReport,
+  ora,
+  chalk,
+}: RunAffectedOptions): Promise<AffectedPackagesResult> {
+  const normalizedRoot = path.resolve(rootDir);
+  const spinner = ora({
+    text: "Analysing workspace...",
+    stream: process.stderr,
+  }).start();
+  let result: AffectedPackagesResult;
+  try {
+    const changedFiles = [
+      ...files.map((file) => path.resolve(file)),
+      ...(await resolveGitPaths(stdinFiles, process.cwd())),
+    ];
+    if (base) {
+      spinner.text = chalk.cyan(`Listing files changed since ${base}...`);
+      const fromGit = await listChangedFiles(normalizedRoot, base);
+      changedFiles.push(
+        ...fromGit.map((file) => path.resolve(normalizedRoot, file)),
+      );
+    }
+    const report = await generateReport({
+      ...reportOptions,
+      rootDir: normalizedRoot,
+      onProgress: (msg: string, progress?: number) => {
+        const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+        spinner.text = chalk.cyan(`${prefix}${msg}`);
+      },
+    });
+    result = findAffectedPackages(report, changedFiles, { includeConfig });
+    spinner.stop();
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return result;
+  }
+  if (result.configFiles.length > 0) {
+    console.error(
+      chalk.yellow(
+        includeConfig
+          ? `Root config changed (${result.configFiles.join(", ")}); every package is affected.`
+          : `Root config changed (${result.configFiles.join(", ")}); pass --include-config to mark every package affected.`,
+      ),
+    );
+  }
+  if (result.unownedFiles.length > 0) {
+    console.error(
+      chalk.gray(
+        `${result.unownedFiles.length} changed file(s) outside any package were ignored.`,
+      ),
+    );
+  }
+  for (const name of result.affectedPackages) {
+    process.stdout.write(`${name}\n`);
+  }
+  return result;
+}
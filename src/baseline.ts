@@ -0,0 +1,136 @@
+import path from "path";
+import * as fsPromises from "node:fs/promises";
+import type { CheckCategory, CheckFinding } from "./check.js";
+
+export const DEFAULT_BASELINE_FILE = "retracify-baseline.json";
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineFile {
+  version: number;
+  findings: Partial<Record<CheckCategory, string[]>>;
+}
+
+// Stable identity for a finding; evidence files are left out on purpose so
+// moving an import between files does not resurface an accepted violation.
+// The kind keeps different findings for the same pair apart.
+export function baselineEntryFor(finding: CheckFinding): string {
+  const subject = finding.target
+    ? `${finding.packageName} -> ${finding.target}`
+    : finding.packageName;
+  return finding.kind ? `${subject} (${finding.kind})` : subject;
+}
+
+export function createBaseline(findings: CheckFinding[]): BaselineFile {
+  const grouped = new Map<CheckCategory, Set<string>>();
+  for (const finding of findings) {
+    const entries = grouped.get(finding.category) ?? new Set<string>();
+    entries.add(baselineEntryFor(finding));
+    grouped.set(finding.category, entries);
+  }
+
+  const entries: Partial<Record<CheckCategory, string[]>> = {};
+  for (const [category, categoryEntries] of grouped) {
+    entries[category] = Array.from(categoryEntries).sort();
+  }
+  return { version: BASELINE_VERSION, findings: entries };
+}
+
+export async function readBaseline(
+  filePath: string,
+): Promise<BaselineFile | null> {
+  let content: string;
+  try {
+    content = await fsPromises.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse baseline ${filePath}: ${(error as Error).message}`,
+    );
+  }
+
+  const findings =
+    typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, unknown>).findings
+      : undefined;
+  if (typeof findings !== "object" || findings === null) {
+    throw new Error(`Baseline ${filePath} is missing a "findings" object.`);
+  }
+
+  const normalized: Partial<Record<CheckCategory, string[]>> = {};
+  for (const [category, entries] of Object.entries(findings)) {
+    if (
+      !Array.isArray(entries) ||
+      entries.some((entry) => typeof entry !== "string")
+    ) {
+      throw new Error(
+        `Baseline ${filePath}: "findings.${category}" must be an array of strings.`,
+      );
+    }
+    normalized[category as CheckCategory] = entries as string[];
+  }
+
+  return {
+    version:
+      Number((parsed as Record<string, unknown>).version) || BASELINE_VERSION,
+    findings: normalized,
+  };
+}
+
+export async function writeBaseline(
+  filePath: string,
+  baseline: BaselineFile,
+): Promise<void> {
+  await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+  await fsPromises.writeFile(
+    filePath,
+    `${JSON.stringify(baseline, null, 2)}\n`,
+    "utf8",
+  );
+}
+
+export interface BaselineComparison {
+  /** Findings that are not part of the baseline. */
+  fresh: CheckFinding[];
+  /** Findings already accepted by the baseline. */
+  known: CheckFinding[];
+  /** Baseline entries that no longer occur and can be ratcheted away. */
+  resolved: Array<{ category: CheckCategory; entry: string }>;
+}
+
+export function compareWithBaseline(
+  findings: CheckFinding[],
+  baseline: BaselineFile,
+): BaselineComparison {
+  const fresh: CheckFinding[] = [];
+  const known: CheckFinding[] = [];
+  const seen = new Set<string>();
+
+  for (const finding of findings) {
+    const entry = baselineEntryFor(finding);
+    const accepted = baseline.findings[finding.category] ?? [];
+    if (accepted.includes(entry)) {
+      known.push(finding);
+      seen.add(`${finding.category}:${entry}`);
+    } else {
+      fresh.push(finding);
+    }
+  }
+
+  const resolved: BaselineComparison["resolved"] = [];
+  for (const [category, entries] of Object.entries(baseline.findings)) {
+    for (const entry of entries ?? []) {
+      if (!seen.has(`${category}:${entry}`)) {
+        resolved.push({ category: category as CheckCategory, entry });
+      }
+    }
+  }
+
+  return { fresh, known, resolved };
+}
@@ -0,0 +1,63 @@
+import path from "path";
+import type { BoundaryRule, PkgInfo } from "./types.js";
+import { globToRegExp } from "./utils.js";
+
+/** Wildcard accepted in `from`, `allow` and `deny`. */
+export const ANY_TAG = "*";
+
+/**
+ * Tags of a package: its own `retracify.tags` plus the tags of every config
+ * glob matching its root-relative directory or its name.
+ */
+export function resolvePackageTags(
+  pkgInfo: PkgInfo,
+  rootDir: string,
+  tagGlobs: Record<string, string[]> = {},
+): string[] {
+  const relativeDir =
+    path.relative(rootDir, pkgInfo.dir).split(path.sep).join("/") || ".";
+  const tags = new Set(pkgInfo.tags ?? []);
+  for (const [pattern, patternTags] of Object.entries(tagGlobs)) {
+    const regex = globToRegExp(pattern.replace(/^\.\//, "").replace(/\/$/, ""));
+    if (regex.test(relativeDir) || regex.test(pkgInfo.name)) {
+      patternTags.forEach((tag) => tags.add(tag));
+    }
+  }
+  return Array.from(tags).sort();
+}
+
+const hasTag = (tags: string[], tag: string) =>
+  tag === ANY_TAG || tags.includes(tag);
+
+const quoteTags = (tags: string[]) => tags.map((tag) => `"${tag}"`).join(", ");
+
+/**
+ * First rule broken by an edge between packages with the given tags. Rules
+ * are checked in order; deny lists win over allow lists of the same rule.
+ */
+export function findBrokenBoundaryRule(
+  sourceTags: string[],
+  targetTags: string[],
+  rules: BoundaryRule[],
+): { rule: BoundaryRule; message: string } | null {
+  for (const rule of rules) {
+    if (!hasTag(sourceTags, rule.from)) continue;
+    const denied = (rule.deny ?? []).filter((tag) => hasTag(targetTags, tag));
+    if (denied.length > 0) {
+      return {
+        rule,
+        message: `"${rule.from}" must not depend on ${quoteTags(denied)}`,
+      };
+    }
+    if (rule.allow && !rule.allow.some((tag) => hasTag(targetTags, tag))) {
+      return {
+        rule,
+        message:
+          rule.allow.length > 0
+            ? `"${rule.from}" may only depend on ${quoteTags(rule.allow)}`
+            : `"${rule.from}" must not depend on workspace packages`,
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,119 @@
+import { buildEdgeMapFromReport } from "./graph.js";
+import type { DependencyReport, EdgeMap } from "./types.js";
+
+export interface BuildOrder {
+  /** Packages per level; a level only depends on the levels before it. */
+  levels: string[][];
+  /**
+   * Strongly connected components that prevent a clean ordering. Their
+   * members share a level, which is only correct if they build together.
+   */
+  cycles: string[][];
+}
+
+// Tarjan's algorithm. Components are emitted after everything they depend on,
+// which is already the order they have to be built in.
+export function findStronglyConnectedComponents(edges: EdgeMap): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  function connect(node: string): void {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter += 1;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const dep of Array.from(edges.get(node) ?? []).sort()) {
+      if (!edges.has(dep)) continue;
+      if (!index.has(dep)) {
+        connect(dep);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(dep)!));
+      }
+    }
+
+    if (lowLink.get(node) !== index.get(node)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== node);
+    components.push(component.sort());
+  }
+
+  for (const node of Array.from(edges.keys()).sort()) {
+    if (!index.has(node)) connect(node);
+  }
+  return components;
+}
+
+/** Group workspace packages into levels that can build in parallel. */
+export function computeBuildOrder(report: DependencyReport): BuildOrder {
+  const edges = buildEdgeMapFromReport(report);
+  const components = findStronglyConnectedComponents(edges);
+  const componentOf = new Map<string, number>();
+  components.forEach((members, id) => {
+    for (const member of members) componentOf.set(member, id);
+  });
+
+  const levels: string[][] = [];
+  const levelOf: number[] = [];
+  const cycles: string[][] = [];
+  components.forEach((members, id) => {
+    let level = 0;
+    for (const member of members) {
+      for (const dep of edges.get(member) ?? []) {
+        const depComponent = componentOf.get(dep);
+        if (depComponent === undefined || depComponent === id) continue;
+        level = Math.max(level, levelOf[depComponent] + 1);
+      }
+    }
+    levelOf[id] = level;
+    (levels[level] ??= []).push(...members);
+
+    const importsItself = members.some((member) =>
+      edges.get(member)?.has(member),
+    );
+    if (members.length > 1 || importsItself) cycles.push(members);
+  });
+
+  return {
+    levels: levels.map((names) => names.sort()),
+    cycles: cycles.sort((a, b) => a[0].localeCompare(b[0])),
+  };
+}
+
+/** Plain-text build plan: one package per line under each level heading. */
+export function renderBuildOrder(report: DependencyReport): string {
+  const { levels, cycles } = computeBuildOrder(report);
+  const inCycle = new Set(cycles.flat());
+  const lines = [
+    `Build order: ${report.packages.length} packages in ${levels.length} level${
+      levels.length === 1 ? "" : "s"
+    }`,
+  ];
+
+  levels.forEach((names, level) => {
+    lines.push("", `Level ${level + 1}`);
+    for (const name of names) {
+      lines.push(`  ${name}${inCycle.has(name) ? "  (cycle)" : ""}`);
+    }
+  });
+
+  if (cycles.length > 0) {
+    lines.push(
+      "",
+      `Cycles preventing a clean order (${cycles.length})`,
+      ...cycles.map((members) => `  ${members.join(" <-> ")}`),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
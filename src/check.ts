@@ -0,0 +1,465 @@
+import path from "path";
+import type { ChalkInstance } from "chalk";
+import {
+  compareWithBaseline,
+  createBaseline,
+  readBaseline,
+  writeBaseline,
+  type BaselineComparison,
+  type BaselineFile,
+} from "./baseline.js";
+import {
+  buildEdgeMapFromReport,
+  generateDependencyReport as defaultGenerateDependencyReport,
+  identifyCyclicEdges,
+} from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import type {
+  DependencyReport,
+  ReportPackage,
+  ReportScanOptions,
+} from "./types.js";
+import { buildClientViewModel } from "./utils.js";
+import { findVersionDrift, type VersionDrift } from "./version-drift.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+
+export type CheckCategory =
+  | "cycles"
+  | "undeclaredDeps"
+  | "undeclaredExternalDeps"
+  | "unusedExternalDeps"
+  | "boundaryViolations"
+  | "deepImports"
+  | "workspaceRangeIssues"
+  | "versionDrift"
+  | "staleLockfileRanges"
+  | "unmirroredPeerDeps"
+  | "criticalPackages";
+
+export const CHECK_CATEGORIES: CheckCategory[] = [
+  "cycles",
+  "undeclaredDeps",
+  "undeclaredExternalDeps",
+  "unusedExternalDeps",
+  "boundaryViolations",
+  "deepImports",
+  "workspaceRangeIssues",
+  "versionDrift",
+  "staleLockfileRanges",
+  "unmirroredPeerDeps",
+  "criticalPackages",
+];
+
+export const CHECK_CATEGORY_LABELS: Record<CheckCategory, string> = {
+  cycles: "Cyclic edges",
+  undeclaredDeps: "Undeclared workspace dependencies",
+  undeclaredExternalDeps: "Undeclared external dependencies",
+  unusedExternalDeps: "Unused external dependencies",
+  boundaryViolations: "Boundary violations",
+  deepImports: "Imports past package exports",
+  workspaceRangeIssues: "Invalid workspace ranges",
+  versionDrift: "External version drift",
+  staleLockfileRanges: "Ranges the lockfile no longer satisfies",
+  unmirroredPeerDeps: "Peer dependencies missing from devDependencies",
+  criticalPackages: "Critical packages",
+};
+
+export interface CheckFinding {
+  category: CheckCategory;
+  packageName: string;
+  /** Dependency the finding is about; null for package-level findings. */
+  target: string | null;
+  /** Evidence files, relative to the analysed root. */
+  files: string[];
+  /** Sub-type within the category, e.g. the workspace range issue kind. */
+  kind?: string;
+  detail?: string;
+}
+
+/** Maximum allowed findings per category; omitted categories are not checked. */
+export type CheckThresholds = Partial<Record<CheckCategory, number>>;
+
+export interface CheckCategoryResult {
+  category: CheckCategory;
+  label: string;
+  max: number;
+  /** Findings counted against the maximum (new ones when a baseline is used). */
+  findings: CheckFinding[];
+  /** Findings skipped because the baseline already accepts them. */
+  baselined: number;
+  passed: boolean;
+}
+
+export interface CheckResult {
+  passed: boolean;
+  categories: CheckCategoryResult[];
+  /** Baseline entries that no longer occur; empty without a baseline. */
+  resolvedBaselineEntries: BaselineComparison["resolved"];
+}
+
+/** Convert a package-relative path from the report into a root-relative one. */
+export function toRootRelative(pkg: ReportPackage, file: string): string {
+  if (pkg.relativeDir === "." || pkg.relativeDir === "") return file;
+  return path.posix.join(pkg.relativeDir.replace(/\\/g, "/"), file);
+}
+
+/** Root-relative files of `pkg` that import the workspace package `dep`. */
+export function dependencyFiles(pkg: ReportPackage, dep: string): string[] {
+  const detail = pkg.dependencyDetails.find((entry) => entry.name === dep);
+  return detail ? detail.files.map((file) => toRootRelative(pkg, file)) : [];
+}
+
+function externalDependencyFiles(pkg: ReportPackage, dep: string): string[] {
+  const detail = (pkg.externalDependencyDetails ?? []).find(
+    (entry) => entry.name === dep,
+  );
+  return detail ? detail.files.map((file) => toRootRelative(pkg, file)) : [];
+}
+
+function hasCommonRange(drift: VersionDrift): boolean {
+  return drift.ranges[0].packages.length > drift.ranges[1].packages.length;
+}
+
+// Flatten a report into individual findings, one per offending edge or package.
+export function collectCheckFindings(report: DependencyReport): CheckFinding[] {
+  const findings: CheckFinding[] = [];
+  const cyclicEdges = identifyCyclicEdges(buildEdgeMapFromReport(report));
+  const { payload } = buildClientViewModel(report);
+  // Packages on the most common range are the reference, not the drift. On a
+  // tie there is no reference, so every declaring package is flagged.
+  const driftByPackage = new Map<string, VersionDrift[]>();
+  for (const drift of findVersionDrift(report.packages)) {
+    const flagged = hasCommonRange(drift)
+      ? drift.ranges.slice(1)
+      : drift.ranges;
+    for (const { packages } of flagged) {
+      for (const name of packages) {
+        driftByPackage.set(name, [...(driftByPackage.get(name) ?? []), drift]);
+      }
+    }
+  }
+
+  report.packages.forEach((pkg, index) => {
+    for (const dep of pkg.dependencies) {
+      if (!cyclicEdges.has(`${pkg.name}->${dep}`)) continue;
+      findings.push({
+        category: "cycles",
+        packageName: pkg.name,
+        target: dep,
+        files: dependencyFiles(pkg, dep),
+      });
+    }
+
+    for (const dep of pkg.undeclaredDeps) {
+      findings.push({
+        category: "undeclaredDeps",
+        packageName: pkg.name,
+        target: dep,
+        files: dependencyFiles(pkg, dep),
+      });
+    }
+
+    for (const dep of pkg.undeclaredExternalDeps) {
+      findings.push({
+        category: "undeclaredExternalDeps",
+        packageName: pkg.name,
+        target: dep,
+        files: externalDependencyFiles(pkg, dep),
+      });
+    }
+
+    for (const dep of pkg.unusedExternalDeps) {
+      findings.push({
+        category: "unusedExternalDeps",
+        packageName: pkg.name,
+        target: dep,
+        files: [toRootRelative(pkg, "package.json")],
+      });
+    }
+
+    for (const violation of pkg.boundaryViolations ?? []) {
+      findings.push({
+        category: "boundaryViolations",
+        packageName: pkg.name,
+        target: violation.target,
+        files: violation.files.map((file) => toRootRelative(pkg, file)),
+        detail: violation.message,
+      });
+    }
+
+    // Targets are full specifiers so every subpath gets its own baseline entry.
+    for (const violation of pkg.deepImportViolations ?? []) {
+      findings.push({
+        category: "deepImports",
+        packageName: pkg.name,
+        target: `${violation.target}${violation.subpath.slice(1)}`,
+        files: violation.files.map((file) => toRootRelative(pkg, file)),
+        detail: `${violation.subpath} is not exported by ${violation.target}`,
+      });
+    }
+
+    for (const issue of pkg.workspaceRangeIssues ?? []) {
+      findings.push({
+        category: "workspaceRangeIssues",
+        packageName: pkg.name,
+        target: issue.dependency,
+        files: [toRootRelative(pkg, "package.json")],
+        kind: issue.kind,
+        detail: issue.message,
+      });
+    }
+
+    for (const drift of driftByPackage.get(pkg.name) ?? []) {
+      const range = drift.ranges.find((entry) =>
+        entry.packages.includes(pkg.name),
+      )!.range;
+      const others = drift.ranges
+        .filter((entry) => entry.range !== range)
+        .map((entry) => entry.range)
+        .join(", ");
+      findings.push({
+        category: "versionDrift",
+        packageName: pkg.name,
+        target: drift.name,
+        files: [toRootRelative(pkg, "package.json")],
+        detail: hasCommonRange(drift)
+          ? `declares ${range} while the most common range is ${drift.ranges[0].range} (${drift.kind})`
+          : `declares ${range} while other packages declare ${others} (${drift.kind})`,
+      });
+    }
+
+    const view = payload.packages[index];
+    for (const stale of view?.staleLockfileRanges ?? []) {
+      findings.push({
+        category: "staleLockfileRanges",
+        packageName: pkg.name,
+        target: stale.dependency,
+        files: [toRootRelative(pkg, "package.json")],
+        detail: `${stale.range} but the lockfile installs ${stale.resolvedVersions.join(", ")}`,
+      });
+    }
+
+    for (const dep of pkg.unmirroredPeerDeps ?? []) {
+      findings.push({
+        category: "unmirroredPeerDeps",
+        packageName: pkg.name,
+        target: dep,
+        files: [toRootRelative(pkg, "package.json")],
+      });
+    }
+
+    if (view?.severityLevel === "critical") {
+      findings.push({
+        category: "criticalPackages",
+        packageName: pkg.name,
+        target: null,
+        files: [],
+        detail: view.severitySignals.join(", "),
+      });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Compare findings against the thresholds. With a baseline only findings that
+ * are missing from it count; accepted ones are reported as baselined.
+ */
+export function evaluateCheck(
+  report: DependencyReport,
+  thresholds: CheckThresholds,
+  baseline?: BaselineFile | null,
+): CheckResult {
+  const allFindings = collectCheckFindings(report);
+  const comparison = baseline
+    ? compareWithBaseline(allFindings, baseline)
+    : { fresh: allFindings, known: [], resolved: [] };
+  const findings = comparison.fresh;
+  const categories = CHECK_CATEGORIES.filter(
+    (category) => typeof thresholds[category] === "number",
+  ).map((category) => {
+    const max = thresholds[category]!;
+    const categoryFindings = findings.filter(
+      (finding) => finding.category === category,
+    );
+    return {
+      category,
+      label: CHECK_CATEGORY_LABELS[category],
+      max,
+      findings: categoryFindings,
+      baselined: comparison.known.filter(
+        (finding) => finding.category === category,
+      ).length,
+      passed: categoryFindings.length <= max,
+    };
+  });
+
+  return {
+    passed: categories.every((category) => category.passed),
+    categories,
+    resolvedBaselineEntries: comparison.resolved.filter(
+      (entry) => typeof thresholds[entry.category] === "number",
+    ),
+  };
+}
+
+export function printCheckResult(
+  result: CheckResult,
+  chalk: ChalkInstance,
+): void {
+  for (const category of result.categories) {
+    const count = category.findings.length;
+    const status = category.passed ? chalk.green("pass") : chalk.red("fail");
+    const baselined =
+      category.baselined > 0
+        ? chalk.gray(`, ${category.baselined} in baseline`)
+        : "";
+    console.log(
+      `${status} ${category.label}: ${count} found (max ${category.max})${baselined}`,
+    );
+    if (count === 0) continue;
+
+    const tone = category.passed ? chalk.yellow : chalk.red;
+    for (const finding of category.findings) {
+      const subject = finding.target
+        ? `${finding.packageName} -> ${finding.target}`
+        : finding.packageName;
+      const detail = finding.detail ? chalk.gray(` (${finding.detail})`) : "";
+      console.log(`  ${tone(subject)}${detail}`);
+      for (const file of finding.files) {
+        console.log(chalk.gray(`    ${file}`));
+      }
+    }
+  }
+
+  if (result.resolvedBaselineEntries.length > 0) {
+    console.log();
+    console.log(
+      chalk.cyan(
+        `${result.resolvedBaselineEntries.length} baseline ${
+          result.resolvedBaselineEntries.length === 1
+            ? "entry is"
+            : "entries are"
+        } no longer found. Run with --update-baseline to ratchet the baseline down.`,
+      ),
+    );
+  }
+
+  console.log();
+  if (result.passed) {
+    console.log(chalk.green("All checks passed."));
+  } else {
+    const failed = result.categories.filter((category) => !category.passed);
+    console.log(
+      chalk.red(
+        `${failed.length} ${failed.length === 1 ? "check" : "checks"} failed: ${failed
+          .map((category) => category.label)
+          .join(", ")}.`,
+      ),
+    );
+  }
+}
+
+export interface RunCheckOptions {
+  rootDir: string;
+  thresholds: CheckThresholds;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  /** Baseline of accepted findings; ignored when the file does not exist. */
+  baselineFile?: string;
+  /**
+   * Rewrite `baselineFile` instead of checking: entries that no longer occur
+   * are dropped, new findings are only added when the file does not exist yet.
+   */
+  updateBaseline?: boolean;
+  /** With `updateBaseline`, also add findings the baseline does not list. */
+  acceptNewFindings?: boolean;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+export async function runCheck({
+  rootDir,
+  thresholds,
+  reportOptions = {},
+  baselineFile,
+  updateBaseline = false,
+  acceptNewFindings = false,
+  generateReport,
+  ora,
+  chalk,
+}: RunCheckOptions): Promise<CheckResult> {
+  const spinner = ora("Analysing workspace...").start();
+  let report: DependencyReport;
+  try {
+    report = await generateReport({
+      ...reportOptions,
+      rootDir: path.resolve(rootDir),
+      onProgress: (msg: string, progress?: number) => {
+        const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+        spinner.text = chalk.cyan(`${prefix}${msg}`);
+      },
+    });
+    spinner.succeed(chalk.green(`Analysed ${report.packages.length} packages`));
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+
+  if (updateBaseline) {
+    if (!baselineFile) {
+      throw new Error("A baseline file is required to update the baseline.");
+    }
+    const findings = collectCheckFindings(report);
+    let recorded = findings;
+    let skipped = 0;
+    try {
+      const existing = await readBaseline(baselineFile);
+      if (existing && !acceptNewFindings) {
+        const { known, fresh } = compareWithBaseline(findings, existing);
+        recorded = known;
+        skipped = fresh.length;
+      }
+      await writeBaseline(baselineFile, createBaseline(recorded));
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      throw error;
+    }
+    console.log(
+      chalk.green(
+        `Baseline written to ${baselineFile} (${recorded.length} ${
+          recorded.length === 1 ? "finding" : "findings"
+        }).`,
+      ),
+    );
+    if (skipped > 0) {
+      console.log(
+        chalk.yellow(
+          `${skipped} new ${
+            skipped === 1 ? "finding" : "findings"
+          } left out of the baseline. Fix them or rerun with --accept-new to accept them.`,
+        ),
+      );
+    }
+    return { passed: true, categories: [], resolvedBaselineEntries: [] };
+  }
+
+  let baseline: BaselineFile | null = null;
+  try {
+    baseline = baselineFile ? await readBaseline(baselineFile) : null;
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    throw error;
+  }
+  if (baseline) {
+    console.log(chalk.gray(`Using baseline: ${baselineFile}`));
+    console.log();
+  }
+
+  const result = evaluateCheck(report, thresholds, baseline);
+  printCheckResult(result, chalk);
+  return result;
+}
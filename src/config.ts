@@ -0,0 +1,360 @@
+import path from "path";
+import * as fsPromises from "node:fs/promises";
+import { pathToFileURL } from "url";
+import ts from "typescript";
+import { CHECK_CATEGORIES, type CheckThresholds } from "./check.js";
+import { DEFAULT_EXCLUDE_PATTERNS } from "./graph.js";
+import type { BoundaryConfig, ReportScanOptions } from "./types.js";
+import { resolveGlobPatterns } from "./utils.js";
+
+export interface RetracifyServerConfig {
+  port?: number;
+  host?: string;
+  open?: boolean;
+  /** Directory names the live watcher ignores on top of the built-in list. */
+  watchIgnore?: string[];
+}
+
+export interface RetracifyConfig {
+  /** Globs excluded from discovery and analysis, on top of the defaults. */
+  exclude?: string[];
+  /** Globs limiting discovery and analysis to matching paths; all when empty. */
+  include?: string[];
+  /** Regular expressions (as strings) for packages treated as tooling-only. */
+  toolingPatterns?: string[];
+  server?: RetracifyServerConfig;
+  /** Maximum findings per category for `retracify check`. */
+  check?: CheckThresholds;
+  /** Baseline file for `retracify check`, relative to the analysed root. */
+  baseline?: string;
+  /** Package tags and allow/deny rules between them. */
+  boundaries?: BoundaryConfig;
+  /**
+   * Treat every package.json under the root as a package instead of only the
+   * ones matched by the declared workspace globs.
+   */
+  allPackages?: boolean;
+}
+
+export interface LoadedRetracifyConfig {
+  config: RetracifyConfig;
+  /** Absolute path of the file the config came from; null when none exists. */
+  source: string | null;
+}
+
+// Searched in order inside the analysed root; the first hit wins.
+export const CONFIG_FILE_NAMES = [
+  "retracify.config.json",
+  "retracify.config.js",
+  "retracify.config.mjs",
+  "retracify.config.cjs",
+  "retracify.config.ts",
+  ".retracifyrc",
+  ".retracifyrc.json",
+];
+
+type KeyValidator = (value: unknown, keyPath: string) => void;
+
+class ConfigValidator {
+  constructor(private readonly source: string) {}
+
+  fail(keyPath: string, message: string): never {
+    throw new Error(
+      `Invalid Retracify config in ${this.source}: "${keyPath}" ${message}.`,
+    );
+  }
+
+  object(
+    value: unknown,
+    keyPath: string,
+    shape: Record<string, KeyValidator>,
+  ): void {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.fail(keyPath, "must be an object");
+    }
+    for (const [key, entry] of Object.entries(
+      value as Record<string, unknown>,
+    )) {
+      const childPath = keyPath ? `${keyPath}.${key}` : key;
+      if (!Object.hasOwn(shape, key)) {
+        this.fail(
+          childPath,
+          `is not a known option (expected one of: ${Object.keys(shape).join(", ")})`,
+        );
+      }
+      if (entry !== undefined) shape[key](entry, childPath);
+    }
+  }
+
+  stringArray = (value: unknown, keyPath: string): void => {
+    if (!Array.isArray(value))
+      this.fail(keyPath, "must be an array of strings");
+    (value as unknown[]).forEach((item, index) => {
+      if (typeof item !== "string" || item.trim().length === 0) {
+        this.fail(`${keyPath}[${index}]`, "must be a non-empty string");
+      }
+    });
+  };
+
+  regexArray = (value: unknown, keyPath: string): void => {
+    this.stringArray(value, keyPath);
+    (value as string[]).forEach((item, index) => {
+      try {
+        new RegExp(item);
+      } catch (error) {
+        this.fail(
+          `${keyPath}[${index}]`,
+          `is not a valid regular expression (${(error as Error).message})`,
+        );
+      }
+    });
+  };
+
+  array = (
+    value: unknown,
+    keyPath: string,
+    validateItem: KeyValidator,
+  ): void => {
+    if (!Array.isArray(value)) this.fail(keyPath, "must be an array");
+    (value as unknown[]).forEach((item, index) =>
+      validateItem(item, `${keyPath}[${index}]`),
+    );
+  };
+
+  record = (
+    value: unknown,
+    keyPath: string,
+    validateEntry: KeyValidator,
+  ): void => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.fail(keyPath, "must be an object");
+    }
+    for (const [key, entry] of Object.entries(
+      value as Record<string, unknown>,
+    )) {
+      validateEntry(entry, `${keyPath}.${key}`);
+    }
+  };
+
+  string = (value: unknown, keyPath: string): void => {
+    if (typeof value !== "string" || value.trim().length === 0) {
+      this.fail(keyPath, "must be a non-empty string");
+    }
+  };
+
+  boolean = (value: unknown, keyPath: string): void => {
+    if (typeof value !== "boolean") this.fail(keyPath, "must be a boolean");
+  };
+
+  nonNegativeInteger = (value: unknown, keyPath: string): void => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      this.fail(keyPath, "must be a non-negative integer");
+    }
+  };
+
+  port = (value: unknown, keyPath: string): void => {
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 1 ||
+      value > 65535
+    ) {
+      this.fail(keyPath, "must be an integer between 1 and 65535");
+    }
+  };
+}
+
+/**
+ * With `packageJson` set, the `retracify` key of a package.json is validated:
+ * its `tags` belong to the package itself (see boundary rules) and are
+ * accepted but left out of the returned config.
+ */
+export function validateRetracifyConfig(
+  raw: unknown,
+  source: string,
+  { packageJson = false }: { packageJson?: boolean } = {},
+): RetracifyConfig {
+  const v = new ConfigValidator(source);
+  v.object(raw, "", {
+    ...(packageJson && { tags: v.stringArray }),
+    exclude: v.stringArray,
+    include: v.stringArray,
+    toolingPatterns: v.regexArray,
+    server: (value, keyPath) =>
+      v.object(value, keyPath, {
+        port: v.port,
+        host: v.string,
+        open: v.boolean,
+        watchIgnore: v.stringArray,
+      }),
+    check: (value, keyPath) =>
+      v.object(
+        value,
+        keyPath,
+        Object.fromEntries(
+          CHECK_CATEGORIES.map((category) => [category, v.nonNegativeInteger]),
+        ),
+      ),
+    baseline: v.string,
+    boundaries: (value, keyPath) =>
+      v.object(value, keyPath, {
+        tags: (tags, tagsPath) => v.record(tags, tagsPath, v.stringArray),
+        rules: (rules, rulesPath) =>
+          v.array(rules, rulesPath, (rule, rulePath) => {
+            v.object(rule, rulePath, {
+              from: v.string,
+              allow: v.stringArray,
+              deny: v.stringArray,
+            });
+            const { from, allow, deny } = rule as Record<string, unknown>;
+            if (from === undefined) v.fail(`${rulePath}.from`, "is required");
+            if (allow === undefined && deny === undefined) {
+              v.fail(rulePath, 'needs an "allow" or "deny" list');
+            }
+          }),
+      }),
+    allPackages: v.boolean,
+  });
+  if (packageJson) {
+    const config = { ...(raw as Record<string, unknown>) };
+    delete config.tags;
+    return config as RetracifyConfig;
+  }
+  return raw as RetracifyConfig;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stats = await fsPromises.stat(filePath);
+    return stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Node cannot import TypeScript, so the config is transpiled to a sibling
+// module, which keeps relative imports of JavaScript files working, and the
+// module is removed right after.
+async function importTypeScriptModule(filePath: string): Promise<unknown> {
+  const source = await fsPromises.readFile(filePath, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  const compiledPath = `${filePath}.${process.pid}.${Date.now()}.mjs`;
+  await fsPromises.writeFile(compiledPath, outputText, "utf8");
+  try {
+    return await import(pathToFileURL(compiledPath).href);
+  } finally {
+    await fsPromises.rm(compiledPath, { force: true });
+  }
+}
+
+async function readConfigFile(filePath: string): Promise<unknown> {
+  const extension = path.extname(filePath);
+  if ([".js", ".mjs", ".cjs", ".ts"].includes(extension)) {
+    try {
+      const loaded = (
+        extension === ".ts"
+          ? await importTypeScriptModule(filePath)
+          : await import(pathToFileURL(filePath).href)
+      ) as { default?: unknown };
+      return loaded.default ?? loaded;
+    } catch (error) {
+      throw new Error(
+        `Unable to load Retracify config ${filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const content = await fsPromises.readFile(filePath, "utf8");
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse Retracify config ${filePath}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Locate and validate the project configuration. An explicit path must exist;
+ * otherwise the known file names are tried before the `retracify` key of the
+ * root package.json. Returns an empty config when nothing is found.
+ */
+export async function loadRetracifyConfig(
+  rootDir: string,
+  explicitPath?: string,
+): Promise<LoadedRetracifyConfig> {
+  const rootDirResolved = path.resolve(rootDir);
+
+  if (explicitPath) {
+    const configPath = path.resolve(explicitPath);
+    if (!(await fileExists(configPath))) {
+      throw new Error(`Retracify config not found: ${configPath}`);
+    }
+    const raw = await readConfigFile(configPath);
+    return {
+      config: validateRetracifyConfig(raw, configPath),
+      source: configPath,
+    };
+  }
+
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = path.join(rootDirResolved, fileName);
+    if (!(await fileExists(candidate))) continue;
+    const raw = await readConfigFile(candidate);
+    return {
+      config: validateRetracifyConfig(raw, candidate),
+      source: candidate,
+    };
+  }
+
+  const packageJsonPath = path.join(rootDirResolved, "package.json");
+  if (await fileExists(packageJsonPath)) {
+    let pkg: unknown;
+    try {
+      pkg = JSON.parse(await fsPromises.readFile(packageJsonPath, "utf8"));
+    } catch {
+      pkg = null;
+    }
+    const embedded =
+      typeof pkg === "object" && pkg !== null
+        ? (pkg as Record<string, unknown>).retracify
+        : undefined;
+    if (embedded !== undefined) {
+      return {
+        config: validateRetracifyConfig(
+          embedded,
+          `${packageJsonPath} ("retracify" key)`,
+          { packageJson: true },
+        ),
+        source: packageJsonPath,
+      };
+    }
+  }
+
+  return { config: {}, source: null };
+}
+
+// Translate config values into the options understood by the report builder.
+export function resolveReportScanOptions(
+  rootDir: string,
+  config: RetracifyConfig,
+): ReportScanOptions {
+  return {
+    exclude: [
+      ...DEFAULT_EXCLUDE_PATTERNS,
+      ...resolveGlobPatterns(rootDir, config.exclude ?? []),
+    ],
+    include: resolveGlobPatterns(rootDir, config.include ?? []),
+    toolingPatterns: (config.toolingPatterns ?? []).map(
+      (pattern) => new RegExp(pattern, "i"),
+    ),
+    boundaries: config.boundaries,
+    allPackages: config.allPackages,
+  };
+}
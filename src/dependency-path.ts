@@ -0,0 +1,280 @@
+import path from "path";
+import type { ChalkInstance } from "chalk";
+import { dependencyFiles } from "./check.js";
+import {
+  buildEdgeMapFromReport,
+  generateDependencyReport as defaultGenerateDependencyReport,
+} from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import type { DependencyReport, EdgeMap, ReportScanOptions } from "./types.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+
+export const DEFAULT_MAX_PATHS = 50;
+
+export interface DependencyPathHop {
+  from: string;
+  to: string;
+  /** Root-relative files of `from` that import `to`. */
+  files: string[];
+}
+
+export interface DependencyPathResult {
+  from: string;
+  to: string;
+  /** Fewest hops from `from` to `to`, null when `to` is unreachable. */
+  shortest: DependencyPathHop[] | null;
+  /** Every simple path, shortest first; only set when requested. */
+  paths?: DependencyPathHop[][];
+  /** True when `paths` stopped at the maxPaths limit. */
+  truncated?: boolean;
+}
+
+export interface DependencyPathOptions {
+  /** Also enumerate every simple path, not just the shortest one. */
+  all?: boolean;
+  /** Stop enumerating after this many paths (default: DEFAULT_MAX_PATHS). */
+  maxPaths?: number;
+}
+
+function sortedTargets(edges: EdgeMap, node: string): string[] {
+  return Array.from(edges.get(node) ?? []).sort();
+}
+
+// Breadth-first search; neighbours are visited in name order so ties resolve
+// the same way on every run.
+function shortestPath(
+  edges: EdgeMap,
+  from: string,
+  to: string,
+): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === to) {
+      const nodes = [to];
+      for (let step = previous.get(to); step; step = previous.get(step)) {
+        nodes.unshift(step);
+      }
+      return nodes;
+    }
+    for (const next of sortedTargets(edges, node)) {
+      if (previous.has(next)) continue;
+      previous.set(next, node);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+// Hops from every package that can reach `to`, found by walking the edges
+// backwards.
+function distancesTo(edges: EdgeMap, to: string): Map<string, number> {
+  const reverse = new Map<string, string[]>();
+  for (const [source, targets] of edges) {
+    for (const target of targets) {
+      reverse.set(target, [...(reverse.get(target) ?? []), source]);
+    }
+  }
+  const distances = new Map([[to, 0]]);
+  const queue = [to];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const source of reverse.get(node) ?? []) {
+      if (distances.has(source)) continue;
+      distances.set(source, distances.get(node)! + 1);
+      queue.push(source);
+    }
+  }
+  return distances;
+}
+
+// Iterative deepening: each round collects the simple paths of exactly
+// `length` hops, so a maxPaths cut never drops a shorter path for a longer
+// one. Packages too far from `to` for the hops left are skipped.
+function simplePaths(
+  edges: EdgeMap,
+  from: string,
+  to: string,
+  maxPaths: number,
+): { paths: string[][]; truncated: boolean } {
+  const distances = distancesTo(edges, to);
+  const paths: string[][] = [];
+  let truncated = false;
+  // Set when a branch was pruned for length, i.e. a longer round may find more.
+  let cutShort = false;
+  const onPath = new Set<string>();
+
+  const visit = (node: string, trail: string[], hopsLeft: number) => {
+    if (truncated) return;
+    if (node === to) {
+      if (hopsLeft > 0) return;
+      if (paths.length === maxPaths) {
+        truncated = true;
+        return;
+      }
+      paths.push([...trail, node]);
+      return;
+    }
+    onPath.add(node);
+    for (const next of sortedTargets(edges, node)) {
+      if (onPath.has(next)) continue;
+      const distance = distances.get(next);
+      if (distance === undefined) continue;
+      if (distance > hopsLeft - 1) {
+        cutShort = true;
+        continue;
+      }
+      visit(next, [...trail, node], hopsLeft - 1);
+    }
+    onPath.delete(node);
+  };
+
+  const start = distances.get(from);
+  if (start === undefined) return { paths, truncated };
+  if (start === 0) return { paths: [[from]], truncated };
+  for (let length = start; !truncated; length += 1) {
+    cutShort = false;
+    visit(from, [], length);
+    if (!cutShort) break;
+  }
+  paths.sort((a, b) => a.length - b.length || a.join().localeCompare(b.join()));
+  return { paths, truncated };
+}
+
+/**
+ * Chains of internal dependencies leading from `from` to `to`, each hop
+ * carrying the files that create it.
+ */
+export function findDependencyPaths(
+  report: DependencyReport,
+  from: string,
+  to: string,
+  { all = false, maxPaths = DEFAULT_MAX_PATHS }: DependencyPathOptions = {},
+): DependencyPathResult {
+  const packages = new Map(report.packages.map((pkg) => [pkg.name, pkg]));
+  for (const name of [from, to]) {
+    if (!packages.has(name)) {
+      throw new Error(`Unknown package "${name}".`);
+    }
+  }
+
+  const edges = buildEdgeMapFromReport(report);
+  const toHops = (nodes: string[]): DependencyPathHop[] =>
+    nodes.slice(1).map((target, index) => ({
+      from: nodes[index],
+      to: target,
+      files: dependencyFiles(packages.get(nodes[index])!, target),
+    }));
+
+  const shortest = shortestPath(edges, from, to);
+  const result: DependencyPathResult = {
+    from,
+    to,
+    shortest: shortest && shortest.length > 1 ? toHops(shortest) : null,
+  };
+  if (all) {
+    const { paths, truncated } = simplePaths(edges, from, to, maxPaths);
+    result.paths = paths.filter((nodes) => nodes.length > 1).map(toHops);
+    result.truncated = truncated;
+  }
+  return result;
+}
+
+function printHops(hops: DependencyPathHop[], chalk: ChalkInstance): void {
+  console.log(`  ${chalk.bold(hops[0].from)}`);
+  for (const hop of hops) {
+    console.log(`  ${chalk.gray("->")} ${chalk.bold(hop.to)}`);
+    for (const file of hop.files) {
+      console.log(chalk.gray(`       ${file}`));
+    }
+  }
+}
+
+export function printDependencyPaths(
+  result: DependencyPathResult,
+  chalk: ChalkInstance,
+): void {
+  if (!result.shortest) {
+    console.log(
+      chalk.yellow(`${result.from} does not depend on ${result.to}.`),
+    );
+    return;
+  }
+
+  console.log(
+    chalk.cyan(
+      `Shortest path (${result.shortest.length} hop${
+        result.shortest.length === 1 ? "" : "s"
+      })`,
+    ),
+  );
+  printHops(result.shortest, chalk);
+
+  if (!result.paths) return;
+  console.log();
+  console.log(
+    chalk.cyan(
+      `All paths (${result.paths.length}${result.truncated ? ", truncated" : ""})`,
+    ),
+  );
+  result.paths.forEach((hops, index) => {
+    if (index > 0) console.log();
+    printHops(hops, chalk);
+  });
+}
+
+export interface RunPathOptions extends DependencyPathOptions {
+  rootDir: string;
+  from: string;
+  to: string;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  /** Print the result as JSON on stdout instead of text. */
+  json?: boolean;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+export async function runPath({
+  rootDir,
+  from,
+  to,
+  all,
+  maxPaths,
+  reportOptions = {},
+  json = false,
+  generateReport,
+  ora,
+  chalk,
+}: RunPathOptions): Promise<DependencyPathResult> {
+  const spinner = ora({
+    text: "Analysing workspace...",
+    stream: process.stderr,
+  }).start();
+  let result: DependencyPathResult;
+  try {
+    const report = await generateReport({
+      ...reportOptions,
+      rootDir: path.resolve(rootDir),
+      onProgress: (msg: string, progress?: number) => {
+        const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+        spinner.text = chalk.cyan(`${prefix}${msg}`);
+      },
+    });
+    result = findDependencyPaths(report, from, to, { all, maxPaths });
+    spinner.stop();
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    printDependencyPaths(result, chalk);
+  }
+  return result;
+}
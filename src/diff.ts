@@ -0,0 +1,414 @@
+import path from "path";
+import os from "os";
+import * as fsPromises from "node:fs/promises";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { ChalkInstance } from "chalk";
+import { baselineEntryFor } from "./baseline.js";
+import {
+  CHECK_CATEGORY_LABELS,
+  collectCheckFindings,
+  dependencyFiles,
+  type CheckCategory,
+  type CheckFinding,
+} from "./check.js";
+import { generateDependencyReport as defaultGenerateDependencyReport } from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import type { DependencyReport, ReportScanOptions } from "./types.js";
+import { buildClientViewModel, type ReportClientPackage } from "./utils.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+type SeverityLevel = ReportClientPackage["severityLevel"];
+
+const execFileAsync = promisify(execFile);
+
+// Severity is diffed separately, so the package-level category is left out.
+const DIFFED_CATEGORIES: CheckCategory[] = [
+  "cycles",
+  "undeclaredDeps",
+  "undeclaredExternalDeps",
+  "unusedExternalDeps",
+  "boundaryViolations",
+  "deepImports",
+  "workspaceRangeIssues",
+  "versionDrift",
+  "staleLockfileRanges",
+  "unmirroredPeerDeps",
+];
+
+export interface DependencyEdgeChange {
+  from: string;
+  to: string;
+  /** Root-relative files behind the edge, taken from the report that has it. */
+  files: string[];
+}
+
+export interface SeverityChange {
+  packageName: string;
+  before: SeverityLevel;
+  after: SeverityLevel;
+  signals: string[];
+}
+
+export interface ReportDiff {
+  addedPackages: string[];
+  removedPackages: string[];
+  addedEdges: DependencyEdgeChange[];
+  removedEdges: DependencyEdgeChange[];
+  /** Findings present in head but not in base. */
+  introduced: CheckFinding[];
+  /** Findings present in base that head no longer has. */
+  resolved: CheckFinding[];
+  severityChanges: SeverityChange[];
+}
+
+function collectEdges(
+  report: DependencyReport,
+): Map<string, DependencyEdgeChange> {
+  const edges = new Map<string, DependencyEdgeChange>();
+  for (const pkg of report.packages) {
+    for (const dep of pkg.dependencies) {
+      edges.set(`${pkg.name}->${dep}`, {
+        from: pkg.name,
+        to: dep,
+        files: dependencyFiles(pkg, dep),
+      });
+    }
+  }
+  return edges;
+}
+
+function collectDiffedFindings(
+  report: DependencyReport,
+): Map<string, CheckFinding> {
+  const findings = new Map<string, CheckFinding>();
+  for (const finding of collectCheckFindings(report)) {
+    if (!DIFFED_CATEGORIES.includes(finding.category)) continue;
+    findings.set(`${finding.category}:${baselineEntryFor(finding)}`, finding);
+  }
+  return findings;
+}
+
+function onlyIn<T>(source: Map<string, T>, other: Map<string, T>): T[] {
+  return Array.from(source.entries())
+    .filter(([key]) => !other.has(key))
+    .map(([, value]) => value);
+}
+
+/** Compare two reports of the same workspace, e.g. built from two git refs. */
+export function diffDependencyReports(
+  base: DependencyReport,
+  head: DependencyReport,
+): ReportDiff {
+  const baseNames = new Set(base.packages.map((pkg) => pkg.name));
+  const headNames = new Set(head.packages.map((pkg) => pkg.name));
+
+  const baseEdges = collectEdges(base);
+  const headEdges = collectEdges(head);
+  const baseFindings = collectDiffedFindings(base);
+  const headFindings = collectDiffedFindings(head);
+
+  const baseSeverity = new Map(
+    buildClientViewModel(base).payload.packages.map((pkg) => [
+      pkg.name,
+      pkg.severityLevel,
+    ]),
+  );
+  const severityChanges: SeverityChange[] = [];
+  for (const pkg of buildClientViewModel(head).payload.packages) {
+    const before = baseSeverity.get(pkg.name);
+    if (!before || before === pkg.severityLevel) continue;
+    severityChanges.push({
+      packageName: pkg.name,
+      before,
+      after: pkg.severityLevel,
+      signals: pkg.severitySignals,
+    });
+  }
+
+  return {
+    addedPackages: [...headNames].filter((name) => !baseNames.has(name)).sort(),
+    removedPackages: [...baseNames]
+      .filter((name) => !headNames.has(name))
+      .sort(),
+    addedEdges: onlyIn(headEdges, baseEdges),
+    removedEdges: onlyIn(baseEdges, headEdges),
+    introduced: onlyIn(headFindings, baseFindings),
+    resolved: onlyIn(baseFindings, headFindings),
+    severityChanges,
+  };
+}
+
+export function isEmptyDiff(diff: ReportDiff): boolean {
+  return (
+    diff.addedPackages.length === 0 &&
+    diff.removedPackages.length === 0 &&
+    diff.addedEdges.length === 0 &&
+    diff.removedEdges.length === 0 &&
+    diff.introduced.length === 0 &&
+    diff.resolved.length === 0 &&
+    diff.severityChanges.length === 0
+  );
+}
+
+export function printReportDiff(
+  diff: ReportDiff,
+  labels: { base: string; head: string },
+  chalk: ChalkInstance,
+): void {
+  console.log(chalk.bold(`Comparing ${labels.base}...${labels.head}`));
+  console.log();
+
+  if (isEmptyDiff(diff)) {
+    console.log(chalk.green("No dependency changes."));
+    return;
+  }
+
+  // `count` is the number of items; edges print extra lines for their files.
+  const section = (title: string, count: number, lines: string[]) => {
+    if (count === 0) return;
+    console.log(`${title} (${count})`);
+    for (const line of lines) console.log(line);
+    console.log();
+  };
+
+  const edgeLines = (
+    edges: DependencyEdgeChange[],
+    marker: string,
+    tone: (value: string) => string,
+  ) =>
+    edges.flatMap((edge) => [
+      `  ${tone(`${marker} ${edge.from} -> ${edge.to}`)}`,
+      ...edge.files.map((file) => chalk.gray(`      ${file}`)),
+    ]);
+
+  const findingLines = (
+    findings: CheckFinding[],
+    category: CheckCategory,
+    marker: string,
+    tone: (value: string) => string,
+  ) =>
+    findings
+      .filter((finding) => finding.category === category)
+      .map((finding) => `  ${tone(`${marker} ${baselineEntryFor(finding)}`)}`);
+
+  section(
+    "Added packages",
+    diff.addedPackages.length,
+    diff.addedPackages.map((name) => `  ${chalk.green(`+ ${name}`)}`),
+  );
+  section(
+    "Removed packages",
+    diff.removedPackages.length,
+    diff.removedPackages.map((name) => `  ${chalk.red(`- ${name}`)}`),
+  );
+  section(
+    "Added edges",
+    diff.addedEdges.length,
+    edgeLines(diff.addedEdges, "+", chalk.green),
+  );
+  section(
+    "Removed edges",
+    diff.removedEdges.length,
+    edgeLines(diff.removedEdges, "-", chalk.red),
+  );
+
+  for (const category of DIFFED_CATEGORIES) {
+    const label = CHECK_CATEGORY_LABELS[category];
+    const introduced = findingLines(diff.introduced, category, "+", chalk.red);
+    const resolved = findingLines(diff.resolved, category, "-", chalk.green);
+    section(`New ${label.toLowerCase()}`, introduced.length, introduced);
+    section(`Resolved ${label.toLowerCase()}`, resolved.length, resolved);
+  }
+
+  section(
+    "Severity changes",
+    diff.severityChanges.length,
+    diff.severityChanges.map((change) => {
+      const signals =
+        change.signals.length > 0
+          ? chalk.gray(` (${change.signals.join(", ")})`)
+          : "";
+      const tone = change.after === "stable" ? chalk.green : chalk.yellow;
+      return `  ${change.packageName}: ${change.before} -> ${tone(change.after)}${signals}`;
+    }),
+  );
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(
+      `git ${args.join(" ")} failed: ${stderr || (error as Error).message}`,
+    );
+  }
+}
+
+export interface RefCheckout {
+  /** Directory matching the analysed root inside the checked-out ref. */
+  rootDir: string;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Check out `ref` into a detached temporary worktree so it can be analysed
+ * without touching the working tree. Call `cleanup` once done.
+ */
+export async function checkoutRef(
+  rootDir: string,
+  ref: string,
+): Promise<RefCheckout> {
+  const root = await fsPromises.realpath(path.resolve(rootDir));
+  const topLevel = await fsPromises.realpath(
+    await git(root, ["rev-parse", "--show-toplevel"]),
+  );
+  try {
+    await git(root, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`Unknown git ref "${ref}".`);
+  }
+
+  const worktreeDir = await fsPromises.mkdtemp(
+    path.join(os.tmpdir(), "retracify-diff-"),
+  );
+  try {
+    await git(topLevel, ["worktree", "add", "--detach", worktreeDir, ref]);
+  } catch (error) {
+    await fsPromises.rm(worktreeDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    rootDir: path.join(worktreeDir, path.relative(topLevel, root)),
+    cleanup: async () => {
+      try {
+        await git(topLevel, ["worktree", "remove", "--force", worktreeDir]);
+      } catch {
+        await fsPromises.rm(worktreeDir, { recursive: true, force: true });
+        await git(topLevel, ["worktree", "prune"]).catch(() => "");
+      }
+    },
+  };
+}
+
+/** Top-level directory of the git work tree holding `cwd`, null outside one. */
+export async function gitTopLevel(cwd: string): Promise<string | null> {
+  try {
+    return await git(cwd, ["rev-parse", "--show-toplevel"]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files that differ between `ref` and the working tree, untracked files
+ * included, relative to `rootDir` and limited to it.
+ */
+export async function listChangedFiles(
+  rootDir: string,
+  ref: string,
+): Promise<string[]> {
+  const root = path.resolve(rootDir);
+  const [changed, untracked] = await Promise.all([
+    git(root, ["diff", "--name-only", "--relative", ref, "--"]),
+    git(root, ["ls-files", "--others", "--exclude-standard"]),
+  ]);
+  return Array.from(
+    new Set(`${changed}\n${untracked}`.split("\n").filter(Boolean)),
+  ).sort();
+}
+
+// Scan globs are anchored to the analysed root; move them into the worktree.
+function rebaseScanOptions(
+  options: ReportScanOptions,
+  fromRoot: string,
+  toRoot: string,
+): ReportScanOptions {
+  const toPosix = (value: string) => value.split(path.sep).join("/");
+  const from = `${toPosix(path.resolve(fromRoot))}/`;
+  const to = `${toPosix(toRoot)}/`;
+  const rebase = (patterns: string[] | undefined) =>
+    patterns?.map((pattern) =>
+      pattern.startsWith(from) ? `${to}${pattern.slice(from.length)}` : pattern,
+    );
+  return {
+    ...options,
+    exclude: rebase(options.exclude),
+    include: rebase(options.include),
+  };
+}
+
+export interface RunDiffOptions {
+  rootDir: string;
+  base: string;
+  /** Ref to compare against; the working tree when omitted. */
+  head?: string;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  /** Print the diff as JSON on stdout instead of the readable summary. */
+  json?: boolean;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+export async function runDiff({
+  rootDir,
+  base,
+  head,
+  reportOptions = {},
+  json = false,
+  generateReport,
+  ora,
+  chalk,
+}: RunDiffOptions): Promise<ReportDiff> {
+  const spinner = ora({
+    text: `Analysing ${base}...`,
+    stream: process.stderr,
+  }).start();
+
+  const buildReport = async (ref: string | undefined) => {
+    const checkout = ref ? await checkoutRef(rootDir, ref) : null;
+    try {
+      return await generateReport({
+        ...(checkout
+          ? rebaseScanOptions(reportOptions, rootDir, checkout.rootDir)
+          : reportOptions),
+        rootDir: checkout ? checkout.rootDir : path.resolve(rootDir),
+        onProgress: (msg: string, progress?: number) => {
+          const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+          spinner.text = chalk.cyan(
+            `${ref ?? "working tree"}: ${prefix}${msg}`,
+          );
+        },
+      });
+    } finally {
+      await checkout?.cleanup();
+    }
+  };
+
+  let diff: ReportDiff;
+  try {
+    const baseReport = await buildReport(base);
+    spinner.text = `Analysing ${head ?? "working tree"}...`;
+    const headReport = await buildReport(head);
+    diff = diffDependencyReports(baseReport, headReport);
+    spinner.stop();
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+
+  if (json) {
+    process.stdout.write(`${JSON.stringify(diff, null, 2)}\n`);
+  } else {
+    printReportDiff(diff, { base, head: head ?? "working tree" }, chalk);
+  }
+  return diff;
+}
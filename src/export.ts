@@ -0,0 +1,85 @@
+import path from "path";
+import * as fsPromises from "node:fs/promises";
+import type { ChalkInstance } from "chalk";
+import { generateDependencyReport as defaultGenerateDependencyReport } from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import type { ReportScanOptions } from "./types.js";
+import { REPORTERS, type ReporterOptions } from "./reporters.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+
+export interface ExportReportOptions {
+  rootDir: string;
+  reporter: string;
+  /** Destination file; when omitted (or "-") the output goes to stdout. */
+  outputFile?: string;
+  reporterOptions?: ReporterOptions;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+/**
+ * Build the report once, render it through the requested reporter and write it
+ * to disk or stdout. Returns the absolute path of the written file, or null
+ * when the output was streamed to stdout.
+ */
+export async function exportReport({
+  rootDir,
+  reporter,
+  outputFile,
+  reporterOptions = {},
+  reportOptions = {},
+  generateReport,
+  ora,
+  chalk,
+}: ExportReportOptions): Promise<string | null> {
+  const selectedReporter = REPORTERS[reporter];
+  if (!selectedReporter) {
+    throw new Error(
+      `Unknown reporter "${reporter}". Expected one of: ${Object.keys(REPORTERS).join(", ")}.`,
+    );
+  }
+
+  const normalizedRoot = path.resolve(rootDir);
+  const targetPath =
+    outputFile && outputFile !== "-" ? path.resolve(outputFile) : null;
+  // Spinners render on stderr so stdout stays clean for piping.
+  const spinner = ora({
+    text: "Generating report...",
+    stream: process.stderr,
+  }).start();
+
+  try {
+    const report = await generateReport({
+      ...reportOptions,
+      rootDir: normalizedRoot,
+      onProgress: (msg: string, progress?: number) => {
+        const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+        spinner.text = chalk.cyan(`${prefix}${msg}`);
+      },
+    });
+
+    const output = await selectedReporter.render(
+      report,
+      normalizedRoot,
+      reporterOptions,
+    );
+
+    if (!targetPath) {
+      spinner.stop();
+      process.stdout.write(output);
+      return null;
+    }
+
+    await fsPromises.mkdir(path.dirname(targetPath), { recursive: true });
+    await fsPromises.writeFile(targetPath, output, "utf8");
+    spinner.succeed(chalk.green(`Report written to ${targetPath}`));
+    return targetPath;
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+}
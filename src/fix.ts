@@ -0,0 +1,559 @@
+import path from "path";
+import * as fsPromises from "node:fs/promises";
+import type { ChalkInstance } from "chalk";
+import { generateDependencyReport as defaultGenerateDependencyReport } from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import { LOCKFILE_NAMES, type LockfileKind } from "./lockfile.js";
+import type { DependencyReport, ReportScanOptions } from "./types.js";
+import { WORKSPACE_PROTOCOL } from "./workspace-ranges.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+
+export type DependencySection =
+  | "dependencies"
+  | "devDependencies"
+  | "optionalDependencies";
+
+export const DEFAULT_WORKSPACE_RANGE = "workspace:*";
+/** Fallback for npm, which has no `workspace:` protocol. */
+export const NPM_WORKSPACE_RANGE = "*";
+
+export interface PackageFix {
+  packageName: string;
+  /** package.json of the package, relative to the analysed root. */
+  manifest: string;
+  add: { section: DependencySection; name: string; range: string }[];
+  remove: { section: DependencySection; name: string }[];
+  /** Undeclared externals without a version range anywhere in the workspace. */
+  unresolved: string[];
+}
+
+/**
+ * Package manager of the workspace: the root `packageManager` field when it
+ * names a known one, otherwise the first lockfile found. Null when neither
+ * gives it away.
+ */
+export async function detectPackageManager(
+  rootDir: string,
+): Promise<LockfileKind | null> {
+  try {
+    const manifest = JSON.parse(
+      await fsPromises.readFile(path.join(rootDir, "package.json"), "utf8"),
+    ) as { packageManager?: unknown };
+    const name =
+      typeof manifest.packageManager === "string"
+        ? manifest.packageManager.split("@")[0]
+        : "";
+    const known = LOCKFILE_NAMES.find(([, kind]) => kind === name);
+    if (known) return known[1];
+  } catch {
+    // fall back to the lockfiles
+  }
+  const candidates: [string, LockfileKind][] = [
+    ...LOCKFILE_NAMES,
+    ["bun.lockb", "bun"],
+  ];
+  for (const [file, kind] of candidates) {
+    try {
+      await fsPromises.access(path.join(rootDir, file));
+      return kind;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+function mostCommon(values: string[]): string | null {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best: string | null = null;
+  for (const [value, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+/**
+ * Decide the package.json edits for every package: undeclared workspace
+ * imports get the range style the workspace already uses (the `workspace:`
+ * protocol or a caret range on the target's version), undeclared externals
+ * the range other packages declare, and unused externals are dropped when
+ * `removeUnused` is set. Under npm workspace imports always get semver ranges.
+ */
+export function planPackageFixes(
+  report: DependencyReport,
+  {
+    removeUnused = false,
+    packageManager = null,
+  }: { removeUnused?: boolean; packageManager?: LockfileKind | null } = {},
+): PackageFix[] {
+  const versionByName = new Map(
+    report.packages.map((pkg) => [pkg.name, pkg.version]),
+  );
+  const workspaceNames = new Set(versionByName.keys());
+  const rangesByName = new Map<string, string[]>();
+  const workspaceRanges: string[] = [];
+  for (const pkg of report.packages) {
+    for (const [name, range] of Object.entries(
+      pkg.declaredVersionRanges ?? {},
+    )) {
+      if (workspaceNames.has(name)) {
+        workspaceRanges.push(range);
+      } else {
+        rangesByName.set(name, [...(rangesByName.get(name) ?? []), range]);
+      }
+    }
+  }
+  // Same dominant-style rule as the workspace range validation, so the added
+  // declarations never get flagged there.
+  const protocolRanges = workspaceRanges.filter((range) =>
+    range.startsWith(WORKSPACE_PROTOCOL),
+  );
+  const supportsProtocol = packageManager !== "npm";
+  const usesSemver =
+    !supportsProtocol ||
+    workspaceRanges.length - protocolRanges.length > protocolRanges.length;
+  // Only the forms that follow the target's version are reused.
+  const protocolRange =
+    mostCommon(
+      protocolRanges.filter((range) =>
+        ["*", "^", "~"].includes(range.slice(WORKSPACE_PROTOCOL.length)),
+      ),
+    ) ?? DEFAULT_WORKSPACE_RANGE;
+  const workspaceRangeFor = (name: string) => {
+    const version = versionByName.get(name);
+    if (usesSemver && version) return `^${version}`;
+    return supportsProtocol ? protocolRange : NPM_WORKSPACE_RANGE;
+  };
+
+  return report.packages
+    .map((pkg): PackageFix => {
+      const add: PackageFix["add"] = pkg.undeclaredDeps.map((name) => ({
+        section: "dependencies",
+        name,
+        range: workspaceRangeFor(name),
+      }));
+      const unresolved: string[] = [];
+      for (const name of pkg.undeclaredExternalDeps) {
+        const range = mostCommon(rangesByName.get(name) ?? []);
+        if (range) {
+          add.push({ section: "dependencies", name, range });
+        } else {
+          unresolved.push(name);
+        }
+      }
+
+      const remove: PackageFix["remove"] = [];
+      if (removeUnused) {
+        for (const name of pkg.unusedExternalDeps) {
+          const dep = pkg.externalDependencies.find(
+            (entry) => entry.name === name,
+          );
+          if (dep?.declaredInDependencies) {
+            remove.push({ section: "dependencies", name });
+          }
+          if (dep?.declaredInDevDependencies) {
+            remove.push({ section: "devDependencies", name });
+          }
+          if (dep?.declaredInOptionalDependencies) {
+            remove.push({ section: "optionalDependencies", name });
+          }
+        }
+      }
+
+      const relativeDir = pkg.relativeDir.replace(/\\/g, "/");
+      return {
+        packageName: pkg.name,
+        manifest:
+          relativeDir === "." || relativeDir === ""
+            ? "package.json"
+            : path.posix.join(relativeDir, "package.json"),
+        add,
+        remove,
+        unresolved,
+      };
+    })
+    .filter(
+      (fix) =>
+        fix.add.length > 0 ||
+        fix.remove.length > 0 ||
+        fix.unresolved.length > 0,
+    );
+}
+
+// Minimal JSON scanner: the text is validated with JSON.parse beforehand, so
+// edits can be spliced in without reformatting anything else in the file.
+interface JsonMember {
+  key: string;
+  start: number;
+  valueStart: number;
+  end: number;
+}
+
+interface JsonObjectSpan {
+  open: number;
+  close: number;
+  members: JsonMember[];
+}
+
+interface JsonLayout {
+  newline: string;
+  indent: string;
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+}
+
+function skipString(text: string, index: number): number {
+  index++;
+  while (index < text.length && text[index] !== '"') {
+    if (text[index] === "\\") index++;
+    index++;
+  }
+  return index + 1;
+}
+
+function skipValue(text: string, index: number): number {
+  if (text[index] === '"') return skipString(text, index);
+  if (text[index] === "{" || text[index] === "[") {
+    let depth = 0;
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index = skipString(text, index);
+        continue;
+      }
+      if (char === "{" || char === "[") depth++;
+      if (char === "}" || char === "]") {
+        depth--;
+        if (depth === 0) return index + 1;
+      }
+      index++;
+    }
+    return index;
+  }
+  while (index < text.length && !/[\s,}\]]/.test(text[index])) index++;
+  return index;
+}
+
+function readObject(text: string, open: number): JsonObjectSpan {
+  const members: JsonMember[] = [];
+  let index = skipWhitespace(text, open + 1);
+  while (text[index] !== "}") {
+    const start = index;
+    const keyEnd = skipString(text, index);
+    const key = JSON.parse(text.slice(start, keyEnd)) as string;
+    const valueStart = skipWhitespace(text, skipWhitespace(text, keyEnd) + 1);
+    const end = skipValue(text, valueStart);
+    members.push({ key, start, valueStart, end });
+    index = skipWhitespace(text, end);
+    if (text[index] === ",") index = skipWhitespace(text, index + 1);
+  }
+  return { open, close: index, members };
+}
+
+function detectLayout(text: string): JsonLayout {
+  const indent = /^([ \t]+)"/m.exec(text)?.[1] ?? "  ";
+  return { newline: text.includes("\r\n") ? "\r\n" : "\n", indent };
+}
+
+function splice(
+  text: string,
+  start: number,
+  end: number,
+  insert: string,
+): string {
+  return `${text.slice(0, start)}${insert}${text.slice(end)}`;
+}
+
+function isSorted(keys: string[]): boolean {
+  return keys.every(
+    (key, index) => index === 0 || keys[index - 1].localeCompare(key) <= 0,
+  );
+}
+
+/**
+ * Insert `"key": value` into the object. Entries reuse the spacing of the
+ * existing ones; sorted objects stay sorted, anything else gets the new key
+ * before the first of `beforeKeys` or at the end.
+ */
+function insertMember(
+  text: string,
+  span: JsonObjectSpan,
+  key: string,
+  valueText: string,
+  layout: JsonLayout,
+  depth: number,
+  beforeKeys: string[] = [],
+): string {
+  const entry = `${JSON.stringify(key)}: ${valueText}`;
+  if (span.members.length === 0) {
+    const { newline, indent } = layout;
+    return splice(
+      text,
+      span.open + 1,
+      span.close,
+      `${newline}${indent.repeat(depth + 1)}${entry}${newline}${indent.repeat(depth)}`,
+    );
+  }
+
+  const leading = text.slice(span.open + 1, span.members[0].start);
+  const keys = span.members.map((member) => member.key);
+  const before =
+    beforeKeys.length > 0
+      ? span.members.find((member) => beforeKeys.includes(member.key))
+      : isSorted(keys)
+        ? span.members.find((member) => member.key.localeCompare(key) > 0)
+        : undefined;
+  if (before) {
+    return splice(text, before.start, before.start, `${entry},${leading}`);
+  }
+  const last = span.members[span.members.length - 1];
+  return splice(text, last.end, last.end, `,${leading}${entry}`);
+}
+
+function removeMember(text: string, span: JsonObjectSpan, key: string): string {
+  const index = span.members.findIndex((member) => member.key === key);
+  if (index === -1) return text;
+  if (span.members.length === 1)
+    return splice(text, span.open + 1, span.close, "");
+  const member = span.members[index];
+  if (index < span.members.length - 1) {
+    return splice(text, member.start, span.members[index + 1].start, "");
+  }
+  return splice(text, span.members[index - 1].end, member.end, "");
+}
+
+// Sections a new "dependencies" block is placed in front of, in order.
+const SECTION_ORDER: Record<DependencySection, string[]> = {
+  dependencies: ["devDependencies", "peerDependencies", "optionalDependencies"],
+  devDependencies: ["peerDependencies", "optionalDependencies"],
+  optionalDependencies: [],
+};
+
+/** Apply a fix to the text of a package.json, keeping its formatting. */
+export function applyPackageFix(content: string, fix: PackageFix): string {
+  JSON.parse(content);
+  const layout = detectLayout(content);
+  const rootOpen = content.indexOf("{");
+  let text = content;
+
+  const sectionSpan = (section: DependencySection) => {
+    const member = readObject(text, rootOpen).members.find(
+      (entry) => entry.key === section,
+    );
+    return member && text[member.valueStart] === "{"
+      ? readObject(text, member.valueStart)
+      : null;
+  };
+
+  for (const { section, name } of fix.remove) {
+    const span = sectionSpan(section);
+    if (span) text = removeMember(text, span, name);
+  }
+
+  for (const { section, name, range } of fix.add) {
+    let span = sectionSpan(section);
+    if (!span) {
+      text = insertMember(
+        text,
+        readObject(text, rootOpen),
+        section,
+        "{}",
+        layout,
+        0,
+        SECTION_ORDER[section],
+      );
+      span = sectionSpan(section)!;
+    }
+    if (span.members.some((member) => member.key === name)) continue;
+    text = insertMember(text, span, name, JSON.stringify(range), layout, 1);
+  }
+
+  return text;
+}
+
+/** Line-based unified diff with three lines of context. */
+export function renderUnifiedDiff(
+  file: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  const toLines = (text: string) => {
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === "") lines.pop();
+    return lines;
+  };
+  const a = toLines(before);
+  const b = toLines(after);
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { type: " " | "-" | "+"; line: string; a: number; b: number }[] =
+    [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i], a: i++, b: j++ });
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      ops.push({ type: "-", line: a[i], a: i++, b: j });
+    } else {
+      ops.push({ type: "+", line: b[j], a: i, b: j++ });
+    }
+  }
+
+  const changed = ops
+    .map((op, index) => (op.type === " " ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changed.length === 0) return "";
+
+  const lines = [`--- a/${file}`, `+++ b/${file}`];
+  let cursor = 0;
+  while (cursor < changed.length) {
+    let last = cursor;
+    while (
+      last + 1 < changed.length &&
+      changed[last + 1] - changed[last] <= context * 2
+    ) {
+      last++;
+    }
+    const start = Math.max(0, changed[cursor] - context);
+    const end = Math.min(ops.length, changed[last] + context + 1);
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((op) => op.type !== "+").length;
+    const bCount = hunk.filter((op) => op.type !== "-").length;
+    lines.push(`@@ -${hunk[0].a + 1},${aCount} +${hunk[0].b + 1},${bCount} @@`);
+    hunk.forEach((op) => lines.push(`${op.type}${op.line}`));
+    cursor = last + 1;
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export interface RunFixOptions {
+  rootDir: string;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  /** Also remove external dependencies that are declared but never imported. */
+  removeUnused?: boolean;
+  /** Print the changes as a diff without writing any file. */
+  dryRun?: boolean;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+export async function runFix({
+  rootDir,
+  reportOptions = {},
+  removeUnused = false,
+  dryRun = false,
+  generateReport,
+  ora,
+  chalk,
+}: RunFixOptions): Promise<PackageFix[]> {
+  const normalizedRoot = path.resolve(rootDir);
+  const spinner = ora("Analysing workspace...").start();
+  let report: DependencyReport;
+  try {
+    report = await generateReport({
+      ...reportOptions,
+      rootDir: normalizedRoot,
+      onProgress: (msg: string, progress?: number) => {
+        const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+        spinner.text = chalk.cyan(`${prefix}${msg}`);
+      },
+    });
+    spinner.succeed(chalk.green(`Analysed ${report.packages.length} packages`));
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+
+  const fixes = planPackageFixes(report, {
+    removeUnused,
+    packageManager: await detectPackageManager(normalizedRoot),
+  });
+  let changedFiles = 0;
+  try {
+    for (const fix of fixes) {
+      console.log();
+      console.log(chalk.bold(`${fix.packageName} (${fix.manifest})`));
+      for (const { section, name, range } of fix.add) {
+        console.log(chalk.green(`  + ${section}: ${name}@${range}`));
+      }
+      for (const { section, name } of fix.remove) {
+        console.log(chalk.red(`  - ${section}: ${name}`));
+      }
+      for (const name of fix.unresolved) {
+        console.log(
+          chalk.yellow(
+            `  ! ${name}: no version range found in the workspace, add it manually`,
+          ),
+        );
+      }
+      if (fix.add.length === 0 && fix.remove.length === 0) continue;
+
+      const manifestPath = path.join(normalizedRoot, fix.manifest);
+      const before = await fsPromises.readFile(manifestPath, "utf8");
+      const after = applyPackageFix(before, fix);
+      if (after === before) continue;
+      changedFiles += 1;
+      if (dryRun) {
+        console.log();
+        for (const line of renderUnifiedDiff(fix.manifest, before, after)
+          .trimEnd()
+          .split("\n")) {
+          const tone = line.startsWith("+")
+            ? chalk.green
+            : line.startsWith("-")
+              ? chalk.red
+              : line.startsWith("@@")
+                ? chalk.cyan
+                : chalk.gray;
+          console.log(tone(line));
+        }
+      } else {
+        await fsPromises.writeFile(manifestPath, after, "utf8");
+      }
+    }
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    throw error;
+  }
+  console.log();
+  if (changedFiles === 0) {
+    console.log(chalk.green("Nothing to fix."));
+  } else if (dryRun) {
+    console.log(
+      chalk.cyan(
+        `Dry run: ${changedFiles} package.json ${
+          changedFiles === 1 ? "file" : "files"
+        } would change.`,
+      ),
+    );
+  } else {
+    console.log(
+      chalk.green(
+        `Updated ${changedFiles} package.json ${changedFiles === 1 ? "file" : "files"}.`,
+      ),
+    );
+  }
+  return fixes;
+}
@@ -0,0 +1,335 @@
+import type { DependencyReport, ReportPackage } from "./types.js";
+import { buildClientViewModel } from "./utils.js";
+
+export interface PackageGraphEdge {
+  from: string;
+  to: string;
+  /** Files of `from` that import `to`. */
+  fileCount: number;
+  isCyclic: boolean;
+}
+
+export interface PackageGraph {
+  nodes: ReportPackage[];
+  edges: PackageGraphEdge[];
+}
+
+export interface GraphExportOptions {
+  /** Group packages by the first segment of their relativeDir (apps/, packages/). */
+  cluster?: boolean;
+  /** Restrict the graph to the neighbourhood of this package. */
+  focus?: string;
+  /** Hops of dependencies and dependents kept around `focus` (default 1). */
+  depth?: number;
+  /** Drop packages without internal dependencies of their own. */
+  hideLeaves?: boolean;
+}
+
+// Internal edges of the report; dependencies always point at workspace packages.
+export function buildPackageGraph(report: DependencyReport): PackageGraph {
+  const names = new Set(report.packages.map((pkg) => pkg.name));
+  const edges: PackageGraphEdge[] = [];
+  for (const pkg of report.packages) {
+    for (const dep of pkg.dependencies) {
+      if (!names.has(dep)) continue;
+      const detail = pkg.dependencyDetails.find((entry) => entry.name === dep);
+      edges.push({
+        from: pkg.name,
+        to: dep,
+        fileCount: detail?.fileCount ?? 0,
+        isCyclic: pkg.cyclicDeps.includes(dep),
+      });
+    }
+  }
+  return { nodes: report.packages, edges };
+}
+
+/**
+ * Apply the focus/depth/leaf filters. Hops follow edges in both directions so
+ * the focus package keeps its dependents as well as its dependencies.
+ */
+export function filterPackageGraph(
+  graph: PackageGraph,
+  { focus, depth = 1, hideLeaves = false }: GraphExportOptions = {},
+): PackageGraph {
+  let keep = new Set(graph.nodes.map((pkg) => pkg.name));
+
+  if (focus) {
+    if (!keep.has(focus)) {
+      throw new Error(`Unknown package "${focus}" for --focus.`);
+    }
+    const neighbours = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+      neighbours.set(edge.from, [
+        ...(neighbours.get(edge.from) ?? []),
+        edge.to,
+      ]);
+      neighbours.set(edge.to, [...(neighbours.get(edge.to) ?? []), edge.from]);
+    }
+    const reached = new Set([focus]);
+    let frontier = [focus];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const name of frontier) {
+        for (const neighbour of neighbours.get(name) ?? []) {
+          if (reached.has(neighbour)) continue;
+          reached.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+    keep = reached;
+  }
+
+  if (hideLeaves) {
+    const withDependencies = new Set(graph.edges.map((edge) => edge.from));
+    keep = new Set(
+      [...keep].filter((name) => name === focus || withDependencies.has(name)),
+    );
+  }
+
+  return {
+    nodes: graph.nodes.filter((pkg) => keep.has(pkg.name)),
+    edges: graph.edges.filter(
+      (edge) => keep.has(edge.from) && keep.has(edge.to),
+    ),
+  };
+}
+
+function clusterKey(pkg: ReportPackage): string | null {
+  const relativeDir = pkg.relativeDir.replace(/\\/g, "/");
+  if (relativeDir === "." || relativeDir === "") return null;
+  const [first] = relativeDir.split("/");
+  return first || null;
+}
+
+function dotId(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/** Graphviz digraph of the workspace packages, cyclic edges drawn in red. */
+export function renderDotGraph(
+  report: DependencyReport,
+  options: GraphExportOptions = {},
+): string {
+  const { nodes, edges } = filterPackageGraph(
+    buildPackageGraph(report),
+    options,
+  );
+  const cluster = options.cluster ?? false;
+  const lines = [
+    "digraph retracify {",
+    '  graph [rankdir=LR, fontname="Helvetica"];',
+    '  node [shape=box, style="rounded,filled", fillcolor="#f8fafc", fontname="Helvetica"];',
+    '  edge [color="#64748b", arrowsize=0.7];',
+    "",
+  ];
+
+  const nodeLine = (pkg: ReportPackage, indent: string) => {
+    const attributes = [`label=${dotId(pkg.name)}`];
+    if (pkg.cyclicDeps.length > 0) attributes.push('color="#dc2626"');
+    return `${indent}${dotId(pkg.name)} [${attributes.join(", ")}];`;
+  };
+
+  if (cluster) {
+    const groups = new Map<string, ReportPackage[]>();
+    const loose: ReportPackage[] = [];
+    for (const pkg of nodes) {
+      const key = clusterKey(pkg);
+      if (!key) {
+        loose.push(pkg);
+        continue;
+      }
+      groups.set(key, [...(groups.get(key) ?? []), pkg]);
+    }
+    for (const [key, members] of [...groups.entries()].sort(([a], [b]) =>
+      a.localeCompare(b),
+    )) {
+      lines.push(`  subgraph ${dotId(`cluster_${key}`)} {`);
+      lines.push(`    label=${dotId(`${key}/`)};`);
+      lines.push('    style="rounded,dashed";');
+      lines.push('    color="#94a3b8";');
+      members.forEach((pkg) => lines.push(nodeLine(pkg, "    ")));
+      lines.push("  }");
+    }
+    loose.forEach((pkg) => lines.push(nodeLine(pkg, "  ")));
+  } else {
+    nodes.forEach((pkg) => lines.push(nodeLine(pkg, "  ")));
+  }
+
+  if (edges.length > 0) lines.push("");
+  for (const edge of edges) {
+    const weight = Math.max(edge.fileCount, 1);
+    const attributes = [
+      `weight=${weight}`,
+      `penwidth=${Number((1 + Math.log2(weight)).toFixed(2))}`,
+      `label=${dotId(String(edge.fileCount))}`,
+    ];
+    if (edge.isCyclic)
+      attributes.push('color="#dc2626"', 'fontcolor="#dc2626"');
+    lines.push(
+      `  ${dotId(edge.from)} -> ${dotId(edge.to)} [${attributes.join(", ")}];`,
+    );
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+function mermaidLabel(value: string): string {
+  return `"${value.replace(/"/g, "#quot;")}"`;
+}
+
+/** Mermaid flowchart of the package graph; cyclic edges are thick and red. */
+export function renderMermaidGraph(
+  report: DependencyReport,
+  options: GraphExportOptions = {},
+): string {
+  const { nodes, edges } = filterPackageGraph(
+    buildPackageGraph(report),
+    options,
+  );
+  const ids = new Map(nodes.map((pkg, index) => [pkg.name, `n${index}`]));
+  const lines = ["flowchart LR"];
+
+  for (const pkg of nodes) {
+    lines.push(`  ${ids.get(pkg.name)}[${mermaidLabel(pkg.name)}]`);
+  }
+
+  const cyclicLinks: number[] = [];
+  edges.forEach((edge, index) => {
+    const arrow = edge.isCyclic ? "==>" : "-->";
+    if (edge.isCyclic) cyclicLinks.push(index);
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  });
+
+  if (cyclicLinks.length > 0) {
+    lines.push(
+      `  linkStyle ${cyclicLinks.join(",")} stroke:#dc2626,stroke-width:2px`,
+    );
+  }
+  if (options.focus && ids.has(options.focus)) {
+    lines.push("  classDef focus fill:#e0f2fe,stroke:#0284c7,stroke-width:2px");
+    lines.push(`  class ${ids.get(options.focus)} focus`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+interface GraphNodeAttributes {
+  label: string;
+  version: string;
+  relativeDir: string;
+  fileCount: number;
+  references: number;
+  severityLevel: string;
+}
+
+function nodeAttributes(report: DependencyReport, nodes: ReportPackage[]) {
+  const severity = new Map(
+    buildClientViewModel(report).payload.packages.map((pkg) => [
+      pkg.name,
+      pkg.severityLevel,
+    ]),
+  );
+  return nodes.map(
+    (pkg): GraphNodeAttributes => ({
+      label: pkg.name,
+      version: pkg.version ?? "",
+      relativeDir: pkg.relativeDir,
+      fileCount: pkg.fileCount,
+      references: pkg.references,
+      severityLevel: severity.get(pkg.name) ?? "stable",
+    }),
+  );
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const GRAPHML_NODE_KEYS: Array<[keyof GraphNodeAttributes, "string" | "int"]> =
+  [
+    ["label", "string"],
+    ["version", "string"],
+    ["relativeDir", "string"],
+    ["fileCount", "int"],
+    ["references", "int"],
+    ["severityLevel", "string"],
+  ];
+
+/** GraphML document for Gephi, yEd and other graph analysis tools. */
+export function renderGraphml(
+  report: DependencyReport,
+  options: GraphExportOptions = {},
+): string {
+  const { nodes, edges } = filterPackageGraph(
+    buildPackageGraph(report),
+    options,
+  );
+  const ids = new Map(nodes.map((pkg, index) => [pkg.name, `n${index}`]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...GRAPHML_NODE_KEYS.map(
+      ([name, type]) =>
+        `  <key id="${name}" for="node" attr.name="${name}" attr.type="${type}"/>`,
+    ),
+    '  <key id="edgeFileCount" for="edge" attr.name="fileCount" attr.type="int"/>',
+    '  <key id="cyclic" for="edge" attr.name="cyclic" attr.type="boolean"/>',
+    '  <graph id="retracify" edgedefault="directed">',
+  ];
+
+  nodeAttributes(report, nodes).forEach((attributes, index) => {
+    lines.push(`    <node id="n${index}">`);
+    for (const [name] of GRAPHML_NODE_KEYS) {
+      lines.push(
+        `      <data key="${name}">${xmlEscape(String(attributes[name]))}</data>`,
+      );
+    }
+    lines.push("    </node>");
+  });
+
+  edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="e${index}" source="${ids.get(edge.from)}" target="${ids.get(edge.to)}">`,
+      `      <data key="edgeFileCount">${edge.fileCount}</data>`,
+      `      <data key="cyclic">${edge.isCyclic}</data>`,
+      "    </edge>",
+    );
+  });
+
+  lines.push("  </graph>", "</graphml>");
+  return `${lines.join("\n")}\n`;
+}
+
+/** Cytoscape.js elements JSON (`cy.add(json.elements)` or `cytoscape({ elements })`). */
+export function renderCytoscapeJson(
+  report: DependencyReport,
+  options: GraphExportOptions = {},
+): string {
+  const { nodes, edges } = filterPackageGraph(
+    buildPackageGraph(report),
+    options,
+  );
+  const elements = {
+    nodes: nodeAttributes(report, nodes).map((attributes) => ({
+      data: { id: attributes.label, ...attributes },
+    })),
+    edges: edges.map((edge) => ({
+      data: {
+        id: `${edge.from}->${edge.to}`,
+        source: edge.from,
+        target: edge.to,
+        fileCount: edge.fileCount,
+        cyclic: edge.isCyclic,
+      },
+    })),
+  };
+  return `${JSON.stringify({ elements }, null, 2)}\n`;
+}
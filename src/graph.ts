@@ -3,22 +3,41 @@ import { builtinModules } from "module";
 import { createHash } from "node:crypto";
 import { readFile, stat } from "fs/promises";
 import ts from "typescript";
+import { findBrokenBoundaryRule, resolvePackageTags } from "./boundaries.js";
+import { findStronglyConnectedComponents } from "./build-order.js";
 import type {
+  BoundaryConfig,
+  BoundaryRule,
+  BoundaryViolation,
+  DeepImportViolation,
   EdgeMap,
   GenerateReportOptions,
   GenerateReportSnapshotEvent,
+  ImportReference,
+  PackageDependencyDetail,
   ReportPackage,
   DependencyReport,
   PkgInfo,
+  StrayPackage,
+  WorkspaceRangeIssue,
 } from "./types.js";
+import { importSubpath, isExportedSubpath } from "./package-exports.js";
 import {
-  discoverPackages,
+  readLockfile,
+  resolveInstalledVersions,
+  type Lockfile,
+} from "./lockfile.js";
+import {
+  discoverWorkspace,
   collectSourceFiles,
   normalizeImportSpecifier,
   loadTsconfigAliasResolvers,
+  matchesGlobPatterns,
+  resolveGlobPatterns,
   resolvePathAliasImport,
   type TsconfigAliasResolver,
 } from "./utils.js";
+import { validateWorkspaceRanges } from "./workspace-ranges.js";
 
 // Create a quick lookup so we can resolve files to the closest owning package.
 export function buildPackageDirectoryMap(
@@ -137,6 +156,7 @@ async function analyzeSourceFile(
     internalReferenceCounts: {},
     internalDependencies: [],
     externalReferenceCounts: {},
+    importLocations: {},
   };
 
   if (!fromPkg) return defaultResult;
@@ -162,13 +182,40 @@ async function analyzeSourceFile(
   const internalReferenceCounts: Record<string, number> = {};
   const internalDependencies = new Set<string>();
   const externalReferenceCounts: Record<string, number> = {};
+  const importLocations: Record<string, ImportLocation[]> = {};
   const isDeclarationFile = DECLARATION_FILE_REGEX.test(filePath);
-  type ImportMeta = { isTypeOnly?: boolean };
+  type ImportMeta = { isTypeOnly?: boolean; node?: ts.Node };
+
+  const recordImportLocation = (
+    target: string,
+    spec: string,
+    meta: ImportMeta,
+    isTypeOnly: boolean,
+    resolvedVia: ImportReference["resolvedVia"] = "package",
+  ) => {
+    if (!meta.node) return;
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      meta.node.getStart(sourceFile),
+    );
+    (importLocations[target] ??= []).push({
+      line: line + 1,
+      column: character + 1,
+      specifier: spec,
+      isTypeOnly,
+      resolvedVia,
+    });
+  };
 
-  const recordInternalDependency = (target: string) => {
+  const recordInternalDependency = (
+    target: string,
+    spec: string,
+    meta: ImportMeta,
+    resolvedVia: ImportReference["resolvedVia"] = "package",
+  ) => {
     internalDependencies.add(target);
     internalReferenceCounts[target] =
       (internalReferenceCounts[target] || 0) + 1;
+    recordImportLocation(target, spec, meta, false, resolvedVia);
   };
 
   const processImport = (spec: string, meta: ImportMeta = {}) => {
@@ -202,17 +249,22 @@ async function analyzeSourceFile(
         const aliasPkg = resolvePackageForFile(candidate, pkgDirMap);
         if (!aliasPkg) continue;
         if (aliasPkg === fromPkg) return;
-        if (!treatAsTypeOnly) {
-          recordInternalDependency(aliasPkg);
+        if (treatAsTypeOnly) {
+          recordImportLocation(aliasPkg, spec, meta, true, "alias");
+        } else {
+          recordInternalDependency(aliasPkg, spec, meta, "alias");
         }
         return;
       }
     }
 
     const target = resolveTargetPackage(spec);
+    // Type-only imports create no edge but are kept as evidence for `why`.
     if (target && target !== fromPkg) {
-      if (!treatAsTypeOnly) {
-        recordInternalDependency(target);
+      if (treatAsTypeOnly) {
+        recordImportLocation(target, spec, meta, true);
+      } else {
+        recordInternalDependency(target, spec, meta);
       }
       return;
     }
@@ -221,6 +273,7 @@ async function analyzeSourceFile(
     if (!externalName) return;
     externalReferenceCounts[externalName] =
       (externalReferenceCounts[externalName] || 0) + 1;
+    recordImportLocation(externalName, spec, meta, treatAsTypeOnly);
   };
 
   const extractSpecifierFromExpression = (
@@ -248,6 +301,7 @@ async function analyzeSourceFile(
       if (specifier) {
         processImport(specifier, {
           isTypeOnly: isTypeOnlyImportDeclaration(statement),
+          node: statement.moduleSpecifier,
         });
       }
     }
@@ -259,6 +313,7 @@ async function analyzeSourceFile(
       if (specifier) {
         processImport(specifier, {
           isTypeOnly: isTypeOnlyExportDeclaration(statement),
+          node: statement.moduleSpecifier,
         });
       }
     }
@@ -272,7 +327,10 @@ async function analyzeSourceFile(
         statement.moduleReference.expression,
       );
       if (specifier) {
-        processImport(specifier, { isTypeOnly: Boolean(statement.isTypeOnly) });
+        processImport(specifier, {
+          isTypeOnly: Boolean(statement.isTypeOnly),
+          node: statement.moduleReference.expression,
+        });
       }
     }
   });
@@ -283,7 +341,10 @@ async function analyzeSourceFile(
       ts.isLiteralTypeNode(node.argument) &&
       ts.isStringLiteral(node.argument.literal)
     ) {
-      processImport(node.argument.literal.text, { isTypeOnly: true });
+      processImport(node.argument.literal.text, {
+        isTypeOnly: true,
+        node: node.argument.literal,
+      });
     }
 
     if (ts.isCallExpression(node)) {
@@ -292,17 +353,18 @@ async function analyzeSourceFile(
       if (args.length > 0) {
         const spec = extractSpecifierFromExpression(args[0]);
         if (spec) {
+          const meta: ImportMeta = { node: args[0] };
           if (expr.kind === ts.SyntaxKind.ImportKeyword) {
-            processImport(spec);
+            processImport(spec, meta);
           } else if (ts.isIdentifier(expr)) {
             if (expr.text === "require") {
-              processImport(spec);
+              processImport(spec, meta);
             }
           } else if (ts.isPropertyAccessExpression(expr)) {
             const baseName = expr.expression.getText(sourceFile);
             const propertyName = expr.name.getText(sourceFile);
             if (propertyAccessAllowList.has(`${baseName}.${propertyName}`)) {
-              processImport(spec);
+              processImport(spec, meta);
             }
           }
         }
@@ -321,6 +383,7 @@ async function analyzeSourceFile(
     internalReferenceCounts,
     internalDependencies: Array.from(internalDependencies),
     externalReferenceCounts,
+    importLocations,
   };
 }
 
@@ -354,6 +417,23 @@ function applyAnalysisToAggregated(
     }
   }
 
+  const locationEntries = Object.entries(analysis.importLocations);
+  if (locationEntries.length > 0) {
+    if (!aggregated.importReferences.has(pkgName)) {
+      aggregated.importReferences.set(pkgName, new Map());
+    }
+    const referenceMap = aggregated.importReferences.get(pkgName)!;
+    const filePath = path.resolve(analysis.filePath);
+    for (const [target, locations] of locationEntries) {
+      if (!referenceMap.has(target)) {
+        referenceMap.set(target, []);
+      }
+      referenceMap
+        .get(target)!
+        .push(...locations.map((location) => ({ ...location, filePath })));
+    }
+  }
+
   const externalEntries = Object.entries(analysis.externalReferenceCounts);
   if (externalEntries.length > 0) {
     if (!aggregated.externalReferenceCount[pkgName]) {
@@ -374,6 +454,7 @@ function buildAggregatedGraphData(
     referenceCount: {},
     externalReferenceCount: {},
     dependencyOrigins: new Map(),
+    importReferences: new Map(),
   };
 
   for (const analysis of analyses) {
@@ -383,50 +464,41 @@ function buildAggregatedGraphData(
   return aggregated;
 }
 
-// Depth-first search tracking the call stack to find cyclic dependency edges.
+// Rebuild the internal edge map from an assembled report so consumers that only
+// hold a DependencyReport (exporters, CLI commands) can walk the same graph.
+export function buildEdgeMapFromReport(report: DependencyReport): EdgeMap {
+  const edges: EdgeMap = new Map();
+  for (const pkg of report.packages) {
+    edges.set(pkg.name, new Set(pkg.dependencies));
+  }
+  return edges;
+}
+
+// An edge is cyclic when both ends share a strongly connected component, or
+// when a package imports itself.
 export function identifyCyclicEdges(
   edges: EdgeMap,
   onProgress?: (msg: string, progress?: number) => void,
 ): Set<string> {
-  const visited = new Set<string>();
-  const stack = new Set<string>();
   const cyclicEdges = new Set<string>();
-  const nodes = Array.from(edges.keys());
-  const total = nodes.length;
-
-  onProgress?.(`Detecting cycles among ${total} packages...`, 85);
-
-  function dfs(node: string, path: string[]): void {
-    visited.add(node);
-    stack.add(node);
-    const deps = edges.get(node) || new Set();
+  onProgress?.(`Detecting cycles among ${edges.size} packages...`, 85);
 
+  const componentOf = new Map<string, number>();
+  findStronglyConnectedComponents(edges).forEach((members, id) => {
+    for (const member of members) componentOf.set(member, id);
+  });
+  for (const [node, deps] of edges) {
     for (const dep of deps) {
-      const edge = `${node}->${dep}`;
-      if (stack.has(dep)) {
-        cyclicEdges.add(edge);
-        const idx = path.indexOf(dep);
-        if (idx !== -1) {
-          for (let i = idx; i < path.length; i++) {
-            const from = path[i];
-            const to = path[i + 1] || node;
-            cyclicEdges.add(`${from}->${to}`);
-          }
-        }
-      } else if (!visited.has(dep)) dfs(dep, [...path, node]);
+      const component = componentOf.get(dep);
+      if (
+        dep === node ||
+        (component !== undefined && component === componentOf.get(node))
+      ) {
+        cyclicEdges.add(`${node}->${dep}`);
+      }
     }
-
-    stack.delete(node);
   }
 
-  nodes.forEach((node, i) => {
-    if (!visited.has(node)) dfs(node, []);
-    if (i % 20 === 0) {
-      const progress = 85 + (i / total) * 5;
-      onProgress?.(`Cycle detection: ${i + 1}/${total}`, progress);
-    }
-  });
-
   onProgress?.(
     `Cycle detection completed (${cyclicEdges.size} cyclic edges found)`,
     90,
@@ -446,6 +518,7 @@ interface AnalysisCallbacks {
     referenceCount: Record<string, number>;
     externalReferenceCount: Record<string, Record<string, number>>;
     dependencyOrigins: Map<string, Map<string, Set<string>>>;
+    importReferences: ImportReferenceMap;
   }) => void;
 }
 
@@ -454,11 +527,19 @@ interface ReportAssemblyContext {
   pkgDirByName: Map<string, string>;
   workspaceNames: Set<string>;
   resolvedRoot: string;
+  toolingPatterns: RegExp[];
+  tagsByName: Map<string, string[]>;
+  boundaryRules: BoundaryRule[];
+  /** `exports` field per workspace package that declares one. */
+  exportsByName: Map<string, unknown>;
+  rangeIssuesByName: Map<string, WorkspaceRangeIssue[]>;
+  lockfile: Lockfile | null;
+  strayPackages: StrayPackage[];
 }
 
 const TYPE_PACKAGE_PATTERNS = [/^@types\//i, /-types$/i, /^types[-/]/i];
 
-const KNOWN_TOOLING_PATTERNS = [
+export const KNOWN_TOOLING_PATTERNS = [
   /^prettier$/i,
   /^prettier-/i,
   /^eslint$/i,
@@ -514,7 +595,8 @@ const SOURCE_FILE_EXTENSIONS = new Set([
   ".mts",
 ]);
 
-const CRITICAL_REBUILD_PATTERNS = [
+// Config files whose changes can alter the analysis of every package.
+export const CRITICAL_REBUILD_PATTERNS = [
   /(?:^|\/)package\.json$/i,
   /(?:^|\/)tsconfig\.[^/]*$/i,
   /(?:^|\/)tsconfig\.json$/i,
@@ -524,14 +606,24 @@ const CRITICAL_REBUILD_PATTERNS = [
   /(?:^|\/)postcss\.config\.[^/]+$/i,
   /(?:^|\/)vitest\.config\.[^/]+$/i,
   /(?:^|\/)jest\.config\.[^/]+$/i,
+  /(?:^|\/)(?:bun\.lock|pnpm-lock\.yaml|package-lock\.json|yarn\.lock)$/i,
+  /(?:^|\/)pnpm-workspace\.yaml$/i,
 ];
 
-const DEFAULT_EXCLUDE_PATTERNS = [
+export const DEFAULT_EXCLUDE_PATTERNS = [
   "**/node_modules/**",
   "**/build/**",
   "**/dist/**",
 ];
 
+type ImportLocation = Omit<ImportReference, "file">;
+
+// Package -> imported package (workspace or external) -> import sites.
+type ImportReferenceMap = Map<
+  string,
+  Map<string, Array<ImportLocation & { filePath: string }>>
+>;
+
 type FileAnalysis = {
   filePath: string;
   pkgName: string | null;
@@ -539,6 +631,7 @@ type FileAnalysis = {
   internalReferenceCounts: Record<string, number>;
   internalDependencies: string[];
   externalReferenceCounts: Record<string, number>;
+  importLocations: Record<string, ImportLocation[]>;
 };
 
 type AggregatedGraphData = {
@@ -546,6 +639,7 @@ type AggregatedGraphData = {
   referenceCount: Record<string, number>;
   externalReferenceCount: Record<string, Record<string, number>>;
   dependencyOrigins: Map<string, Map<string, Set<string>>>;
+  importReferences: ImportReferenceMap;
 };
 
 function isSourceFile(filePath: string): boolean {
@@ -566,12 +660,14 @@ function assembleReportPackages(
     referenceCount,
     externalReferenceCount,
     dependencyOrigins,
+    importReferences,
   }: {
     edges: EdgeMap;
     cyclicEdges?: Set<string>;
     referenceCount: Record<string, number>;
     externalReferenceCount: Record<string, Record<string, number>>;
     dependencyOrigins: Map<string, Map<string, Set<string>>>;
+    importReferences: ImportReferenceMap;
   },
 ): ReportPackage[] {
   const activeCyclicEdges = cyclicEdges ?? new Set<string>();
@@ -610,14 +706,21 @@ function assembleReportPackages(
       pkgInfo.declaredDevDeps && pkgInfo.declaredDevDeps.length > 0
         ? pkgInfo.declaredDevDeps
         : [];
+    const declaredPeerDeps = pkgInfo.declaredPeerDeps ?? [];
+    const declaredOptionalDeps = pkgInfo.declaredOptionalDeps ?? [];
     const fallbackDeclared =
-      declaredProdDeps.length === 0 && declaredDevDeps.length === 0
+      declaredProdDeps.length === 0 &&
+      declaredDevDeps.length === 0 &&
+      declaredPeerDeps.length === 0 &&
+      declaredOptionalDeps.length === 0
         ? pkgInfo.declaredDeps ?? []
         : [];
 
     const declaredSet = new Set([
       ...declaredProdDeps,
       ...declaredDevDeps,
+      ...declaredPeerDeps,
+      ...declaredOptionalDeps,
       ...fallbackDeclared,
     ]);
 
@@ -628,26 +731,115 @@ function assembleReportPackages(
       dependencyOrigins.get(pkgInfo.name) ??
       new Map<string, Set<string>>();
 
+    const toPackageRelative = (file: string) => {
+      const relativeToPkg = path.relative(resolvedDir, file);
+      const relative =
+        relativeToPkg && !relativeToPkg.startsWith("..")
+          ? relativeToPkg
+          : path.relative(context.resolvedRoot, file);
+      return relative.replace(/\\/g, "/");
+    };
+
+    const importReferencesForPkg =
+      importReferences.get(pkgInfo.name) ??
+      new Map<string, Array<ImportLocation & { filePath: string }>>();
+    const referencesFor = (target: string): ImportReference[] =>
+      (importReferencesForPkg.get(target) ?? [])
+        .map(({ filePath, ...location }) => ({
+          file: toPackageRelative(filePath),
+          ...location,
+        }))
+        .sort(
+          (a, b) =>
+            a.file.localeCompare(b.file) ||
+            a.line - b.line ||
+            a.column - b.column,
+        );
+
     const dependencyDetails = deps.map((dep) => {
       const originFiles = dependencyOriginsForPkg.get(dep);
       const files = originFiles
-        ? Array.from(originFiles).map((file) => {
-            const relativeToPkg = path.relative(resolvedDir, file);
-            const relative =
-              relativeToPkg && !relativeToPkg.startsWith("..")
-                ? relativeToPkg
-                : path.relative(context.resolvedRoot, file);
-            return relative.replace(/\\/g, "/");
-          })
+        ? Array.from(originFiles).map(toPackageRelative)
         : [];
       const uniqueFiles = Array.from(new Set(files)).sort();
       return {
         name: dep,
         files: uniqueFiles,
         fileCount: uniqueFiles.length,
+        references: referencesFor(dep).filter(
+          (reference) => !reference.isTypeOnly,
+        ),
       };
     });
 
+    const typeOnlyDependencyDetails: PackageDependencyDetail[] = [];
+    for (const target of Array.from(importReferencesForPkg.keys()).sort()) {
+      if (!context.workspaceNames.has(target) || target === pkgInfo.name) {
+        continue;
+      }
+      const references = referencesFor(target).filter(
+        (reference) => reference.isTypeOnly,
+      );
+      if (references.length === 0) continue;
+      const files = Array.from(
+        new Set(references.map((reference) => reference.file)),
+      );
+      typeOnlyDependencyDetails.push({
+        name: target,
+        files,
+        fileCount: files.length,
+        references,
+      });
+    }
+
+    const tags = context.tagsByName.get(pkgInfo.name) ?? [];
+    const boundaryViolations: BoundaryViolation[] = [];
+    if (context.boundaryRules.length > 0) {
+      for (const detail of dependencyDetails) {
+        const broken = findBrokenBoundaryRule(
+          tags,
+          context.tagsByName.get(detail.name) ?? [],
+          context.boundaryRules,
+        );
+        if (!broken) continue;
+        boundaryViolations.push({
+          target: detail.name,
+          rule: broken.rule.from,
+          message: broken.message,
+          files: detail.files,
+        });
+      }
+    }
+
+    // Subpaths resolved through tsconfig aliases point at files, not at the
+    // package entry points, so only package specifiers are checked.
+    const deepImportViolations: DeepImportViolation[] = [];
+    for (const detail of dependencyDetails) {
+      if (!context.exportsByName.has(detail.name)) continue;
+      const exportsField = context.exportsByName.get(detail.name);
+      const filesBySubpath = new Map<string, Set<string>>();
+      for (const reference of detail.references) {
+        if (reference.resolvedVia !== "package") continue;
+        const subpath = importSubpath(reference.specifier, detail.name);
+        if (subpath === ".") continue;
+        if (isExportedSubpath(exportsField, subpath) !== false) continue;
+        const files = filesBySubpath.get(subpath) ?? new Set<string>();
+        files.add(reference.file);
+        filesBySubpath.set(subpath, files);
+      }
+      for (const [subpath, files] of filesBySubpath) {
+        deepImportViolations.push({
+          target: detail.name,
+          subpath,
+          files: Array.from(files).sort(),
+        });
+      }
+    }
+    deepImportViolations.sort(
+      (a, b) =>
+        a.target.localeCompare(b.target) || a.subpath.localeCompare(b.subpath),
+    );
+
     const externalUsage = externalReferenceCount[pkgInfo.name] || {};
     const toolingDepSet = new Set(
       (pkgInfo.toolingDeps ?? []).map((dep) => normalizeImportSpecifier(dep)),
@@ -669,6 +861,16 @@ function assembleReportPackages(
       }
     }
 
+    const externalNames = (declared: string[]) =>
+      new Set(
+        declared
+          .map(normalizeImportSpecifier)
+          .filter((name) => !context.workspaceNames.has(name)),
+      );
+    const declaredExternalPeerNames = externalNames(declaredPeerDeps);
+    const declaredExternalOptionalNames = externalNames(declaredOptionalDeps);
+    const optionalPeerNames = new Set(pkgInfo.optionalPeerDeps ?? []);
+
     if (fallbackDeclared.length > 0) {
       for (const declared of fallbackDeclared) {
         const normalized = normalizeImportSpecifier(declared);
@@ -681,6 +883,8 @@ function assembleReportPackages(
     const declaredExternalNames = new Set<string>([
       ...Array.from(declaredExternalProdNames),
       ...Array.from(declaredExternalDevNames),
+      ...Array.from(declaredExternalPeerNames),
+      ...Array.from(declaredExternalOptionalNames),
     ]);
     for (const declared of declaredSet) {
       const normalized = normalizeImportSpecifier(declared);
@@ -689,6 +893,9 @@ function assembleReportPackages(
       }
     }
 
+    const relativeDirRaw = path.relative(context.resolvedRoot, pkgInfo.dir);
+    const relativeDir = relativeDirRaw === "" ? "." : relativeDirRaw;
+
     const externalDependencies = Array.from(
       new Set([
         ...Array.from(declaredExternalNames),
@@ -698,6 +905,9 @@ function assembleReportPackages(
       const usageCount = externalUsage[name] ?? 0;
       const declaredInDependencies = declaredExternalProdNames.has(name);
       const declaredInDevDependencies = declaredExternalDevNames.has(name);
+      const declaredInPeerDependencies = declaredExternalPeerNames.has(name);
+      const declaredInOptionalDependencies =
+        declaredExternalOptionalNames.has(name);
       const isLikelyTypePackage = TYPE_PACKAGE_PATTERNS.some((pattern) =>
         pattern.test(name),
       );
@@ -712,9 +922,9 @@ function assembleReportPackages(
         nameLower.includes("eslint-parser") ||
         nameLower.includes("eslint-import");
       const isScriptUsed = toolingDepSet.has(name);
-      const matchesKnownTooling = KNOWN_TOOLING_PATTERNS.some((pattern) =>
-        pattern.test(name),
-      );
+      const matchesKnownTooling =
+        KNOWN_TOOLING_PATTERNS.some((pattern) => pattern.test(name)) ||
+        context.toolingPatterns.some((pattern) => pattern.test(name));
       const declaredDevOnly =
         declaredInDevDependencies && !declaredInDependencies;
       const isToolingOnly =
@@ -725,7 +935,10 @@ function assembleReportPackages(
         isScriptUsed ||
         (matchesKnownTooling && (declaredDevOnly || isScriptUsed));
       const isDeclared =
-        declaredInDependencies || declaredInDevDependencies;
+        declaredInDependencies ||
+        declaredInDevDependencies ||
+        declaredInPeerDependencies ||
+        declaredInOptionalDependencies;
       const isUsed = usageCount > 0 || isToolingOnly;
       return {
         name,
@@ -734,8 +947,21 @@ function assembleReportPackages(
         usageCount,
         declaredInDependencies,
         declaredInDevDependencies,
+        declaredInPeerDependencies,
+        declaredInOptionalDependencies,
+        isOptionalPeer:
+          declaredInPeerDependencies && optionalPeerNames.has(name),
         isLikelyTypePackage,
         isToolingOnly,
+        ...(context.lockfile && {
+          resolvedVersions: resolveInstalledVersions(
+            context.lockfile,
+            { name: pkgInfo.name, relativeDir },
+            name,
+            pkgInfo.declaredVersionRanges?.[name],
+          ),
+          installedVersions: context.lockfile.installed.get(name) ?? [],
+        }),
       };
     });
 
@@ -746,18 +972,41 @@ function assembleReportPackages(
     const undeclaredExternalDeps = filteredExternalDependencies
       .filter((dep) => dep.isUsed && !dep.isDeclared)
       .map((dep) => dep.name);
+    // Peer dependencies are a contract with consumers; a package may declare
+    // one it never imports itself (e.g. react-dom next to react).
     const unusedExternalDeps = filteredExternalDependencies
       .filter(
         (dep) =>
           dep.isDeclared &&
           !dep.isUsed &&
           !dep.isLikelyTypePackage &&
-          !dep.isToolingOnly,
+          !dep.isToolingOnly &&
+          !dep.declaredInPeerDependencies,
       )
       .map((dep) => dep.name);
 
-    const relativeDirRaw = path.relative(context.resolvedRoot, pkgInfo.dir);
-    const relativeDir = relativeDirRaw === "" ? "." : relativeDirRaw;
+    // Peers are not installed for the package itself; without a dev (or
+    // regular) mirror local builds and tests resolve whatever is hoisted.
+    const mirroredNames = new Set([...declaredProdDeps, ...declaredDevDeps]);
+    const unmirroredPeerDeps = declaredPeerDeps
+      .filter((name) => !mirroredNames.has(name))
+      .sort();
+
+    const externalDependencyDetails: PackageDependencyDetail[] =
+      filteredExternalDependencies
+        .filter((dep) => dep.usageCount > 0)
+        .map((dep) => {
+          const references = referencesFor(dep.name);
+          const files = Array.from(
+            new Set(references.map((reference) => reference.file)),
+          ).sort();
+          return {
+            name: dep.name,
+            files,
+            fileCount: files.length,
+            references,
+          };
+        });
 
     return {
       name: pkgInfo.name,
@@ -774,13 +1023,21 @@ function assembleReportPackages(
       dependencies: deps,
       declaredDeps,
       undeclaredDeps,
+      declaredVersionRanges: pkgInfo.declaredVersionRanges ?? {},
       references: referenceCount[pkgInfo.name] || 0,
       cyclicDeps: directCyclicDeps,
       dependencyDetails,
       externalDependencies: filteredExternalDependencies,
+      externalDependencyDetails,
       undeclaredExternalDeps,
       unusedExternalDeps,
+      unmirroredPeerDeps,
       toolingDeps: pkgInfo.toolingDeps ?? [],
+      tags,
+      typeOnlyDependencyDetails,
+      boundaryViolations,
+      deepImportViolations,
+      workspaceRangeIssues: context.rangeIssuesByName.get(pkgInfo.name) ?? [],
     };
   });
 }
@@ -793,11 +1050,13 @@ function composeDependencyReport(
     referenceCount: Record<string, number>;
     externalReferenceCount: Record<string, Record<string, number>>;
     dependencyOrigins: Map<string, Map<string, Set<string>>>;
+    importReferences: ImportReferenceMap;
   },
 ): DependencyReport {
   return {
     rootDir: context.resolvedRoot,
     packages: assembleReportPackages(context, data),
+    strayPackages: context.strayPackages,
   };
 }
 
@@ -814,6 +1073,7 @@ export async function analyzeImportGraph(
   referenceCount: Record<string, number>;
   externalReferenceCount: Record<string, Record<string, number>>;
   dependencyOrigins: Map<string, Map<string, Set<string>>>;
+  importReferences: ImportReferenceMap;
 }> {
   const onProgress = callbacks.onProgress;
   const pkgDirMap = buildPackageDirectoryMap(pkgInfoList);
@@ -829,6 +1089,7 @@ export async function analyzeImportGraph(
     referenceCount: {},
     externalReferenceCount: {},
     dependencyOrigins: new Map(),
+    importReferences: new Map(),
   };
 
   for (let i = 0; i < total; i++) {
@@ -863,6 +1124,7 @@ export async function analyzeImportGraph(
       referenceCount: aggregated.referenceCount,
       externalReferenceCount: aggregated.externalReferenceCount,
       dependencyOrigins: aggregated.dependencyOrigins,
+      importReferences: aggregated.importReferences,
     });
   }
 
@@ -874,6 +1136,7 @@ export async function analyzeImportGraph(
     referenceCount: aggregated.referenceCount,
     externalReferenceCount: aggregated.externalReferenceCount,
     dependencyOrigins: aggregated.dependencyOrigins,
+    importReferences: aggregated.importReferences,
   };
 }
 
@@ -887,12 +1150,22 @@ type IncrementalBuildOptions = {
 type BuilderInitOptions = {
   rootDir: string;
   exclude?: string[];
+  include?: string[];
+  toolingPatterns?: RegExp[];
+  boundaries?: BoundaryConfig;
+  allPackages?: boolean;
 };
 
 export class IncrementalDependencyReportBuilder {
   private readonly rootDir: string;
   private readonly exclude: string[];
+  private readonly include: string[];
+  private readonly toolingPatterns: RegExp[];
+  private readonly boundaries: BoundaryConfig;
+  private readonly allPackages: boolean;
   private resolvedRoot: string;
+  // Absolute globs for stray package directories, skipped during analysis.
+  private strayIgnore: string[] = [];
   private pkgInfoList: PkgInfo[] = [];
   private assemblyContext: ReportAssemblyContext | null = null;
   private aliasResolvers: TsconfigAliasResolver[] = [];
@@ -903,9 +1176,20 @@ export class IncrementalDependencyReportBuilder {
   private initialized = false;
   private lastReport: DependencyReport | null = null;
 
-  constructor({ rootDir, exclude }: BuilderInitOptions) {
+  constructor({
+    rootDir,
+    exclude,
+    include,
+    toolingPatterns,
+    boundaries,
+    allPackages,
+  }: BuilderInitOptions) {
     this.rootDir = rootDir;
     this.exclude = exclude ?? DEFAULT_EXCLUDE_PATTERNS;
+    this.include = include ?? [];
+    this.toolingPatterns = toolingPatterns ?? [];
+    this.boundaries = boundaries ?? {};
+    this.allPackages = allPackages ?? false;
     this.resolvedRoot = path.resolve(this.rootDir);
   }
 
@@ -969,7 +1253,17 @@ export class IncrementalDependencyReportBuilder {
     this.resolvedRoot = path.resolve(this.rootDir);
 
     onProgress?.("Detecting packages...", 0);
-    const pkgs = await discoverPackages(this.resolvedRoot, this.exclude);
+    const { packages: pkgs, strayPackages } = await discoverWorkspace(
+      this.resolvedRoot,
+      this.exclude,
+      undefined,
+      this.include,
+      this.allPackages,
+    );
+    this.strayIgnore = resolveGlobPatterns(
+      this.resolvedRoot,
+      strayPackages.map((stray) => `${stray.relativeDir}/**`),
+    );
     onProgress?.(`Found ${pkgs.length} packages`, 8);
     if (pkgs.length === 0) {
       throw new Error(`No packages found in ${this.resolvedRoot}`);
@@ -986,6 +1280,22 @@ export class IncrementalDependencyReportBuilder {
       pkgDirByName: this.pkgDirByName,
       workspaceNames: this.workspaceNames,
       resolvedRoot: this.resolvedRoot,
+      toolingPatterns: this.toolingPatterns,
+      tagsByName: new Map(
+        pkgs.map((pkg) => [
+          pkg.name,
+          resolvePackageTags(pkg, this.resolvedRoot, this.boundaries.tags),
+        ]),
+      ),
+      boundaryRules: this.boundaries.rules ?? [],
+      exportsByName: new Map(
+        pkgs
+          .filter((pkg) => pkg.exports !== undefined)
+          .map((pkg) => [pkg.name, pkg.exports]),
+      ),
+      rangeIssuesByName: validateWorkspaceRanges(pkgs),
+      lockfile: await readLockfile(this.resolvedRoot),
+      strayPackages,
     } satisfies ReportAssemblyContext;
 
     const aggregated: AggregatedGraphData = {
@@ -993,6 +1303,7 @@ export class IncrementalDependencyReportBuilder {
       referenceCount: {},
       externalReferenceCount: {},
       dependencyOrigins: new Map(),
+      importReferences: new Map(),
     };
 
     const SNAPSHOT_THROTTLE_MS = 250;
@@ -1024,6 +1335,7 @@ export class IncrementalDependencyReportBuilder {
           referenceCount: aggregated.referenceCount,
           externalReferenceCount: aggregated.externalReferenceCount,
           dependencyOrigins: aggregated.dependencyOrigins,
+          importReferences: aggregated.importReferences,
           cyclicEdges: new Set(),
         }),
       true,
@@ -1033,10 +1345,16 @@ export class IncrementalDependencyReportBuilder {
     this.aliasResolvers = await loadTsconfigAliasResolvers(
       this.resolvedRoot,
       this.exclude,
+      this.include,
     );
 
     onProgress?.("Searching for source files...", 22);
-    const files = await collectSourceFiles(this.resolvedRoot, this.exclude);
+    const files = await collectSourceFiles(
+      this.resolvedRoot,
+      [...this.exclude, ...this.strayIgnore],
+      undefined,
+      this.include,
+    );
     const total = files.length;
     onProgress?.(`Found ${total} source files`, 25);
 
@@ -1071,6 +1389,7 @@ export class IncrementalDependencyReportBuilder {
           referenceCount: aggregated.referenceCount,
           externalReferenceCount: aggregated.externalReferenceCount,
           dependencyOrigins: aggregated.dependencyOrigins,
+          importReferences: aggregated.importReferences,
         }),
       );
     }
@@ -1084,6 +1403,7 @@ export class IncrementalDependencyReportBuilder {
       referenceCount: aggregated.referenceCount,
       externalReferenceCount: aggregated.externalReferenceCount,
       dependencyOrigins: aggregated.dependencyOrigins,
+      importReferences: aggregated.importReferences,
     });
 
     dispatchSnapshot("Report ready", 100, () => this.lastReport!, true);
@@ -1099,6 +1419,7 @@ export class IncrementalDependencyReportBuilder {
       referenceCount: aggregated.referenceCount,
       externalReferenceCount: aggregated.externalReferenceCount,
       dependencyOrigins: aggregated.dependencyOrigins,
+      importReferences: aggregated.importReferences,
     });
     this.lastReport = report;
     return report;
@@ -1121,6 +1442,13 @@ export class IncrementalDependencyReportBuilder {
       }
 
       if (!isSourceFile(absPath)) continue;
+      if (
+        this.include.length > 0 &&
+        !matchesGlobPatterns(absPath, this.include)
+      ) {
+        continue;
+      }
+      if (matchesGlobPatterns(absPath, this.strayIgnore)) continue;
 
       let exists = false;
       try {
@@ -1179,6 +1507,10 @@ export class IncrementalDependencyReportBuilder {
 export async function generateDependencyReport({
   rootDir = ".",
   exclude = DEFAULT_EXCLUDE_PATTERNS,
+  include,
+  toolingPatterns,
+  boundaries,
+  allPackages,
   onProgress,
   onSnapshot,
 }: GenerateReportOptions & {
@@ -1187,6 +1519,10 @@ export async function generateDependencyReport({
   const builder = new IncrementalDependencyReportBuilder({
     rootDir,
     exclude,
+    include,
+    toolingPatterns,
+    boundaries,
+    allPackages,
   });
 
   return builder.buildReport({
@@ -1,16 +1,45 @@
 #!/usr/bin/env node
 import chalk, { type ChalkInstance } from "chalk";
 import ora, { type Ora, type Options as OraOptions } from "ora";
+import path from "path";
 import { parseArgs } from "node:util";
 import {
   generateDependencyReport as defaultGenerateDependencyReport,
 } from "./graph.js";
+import { parseFileList, runAffected } from "./affected.js";
+import { DEFAULT_BASELINE_FILE } from "./baseline.js";
+import {
+  CHECK_CATEGORIES,
+  runCheck,
+  type CheckCategory,
+  type CheckThresholds,
+} from "./check.js";
+import {
+  loadRetracifyConfig,
+  resolveReportScanOptions,
+  type LoadedRetracifyConfig,
+  type RetracifyConfig,
+} from "./config.js";
+import { DEFAULT_MAX_PATHS, runPath } from "./dependency-path.js";
+import { runDiff } from "./diff.js";
+import { exportReport } from "./export.js";
+import { DEFAULT_WORKSPACE_RANGE, runFix } from "./fix.js";
+import {
+  JSON_PAYLOAD_FORMATS,
+  REPORTERS,
+  isKnownReporter,
+  reporterForOutputFile,
+  type JsonPayloadFormat,
+} from "./reporters.js";
 import { startLiveUiServer as startLiveUiServerImpl } from "./live-server.js";
+import type { ReportScanOptions } from "./types.js";
+import { runWhy } from "./why.js";
 
  type OraFactory = (options?: string | OraOptions) => Ora;
 
  type RetracifyMocks = {
    startLiveUiServer?: typeof startLiveUiServerImpl;
+   generateDependencyReport?: typeof defaultGenerateDependencyReport;
    ora?: OraFactory;
    chalk?: ChalkInstance;
  };
@@ -21,6 +50,8 @@ import { startLiveUiServer as startLiveUiServerImpl } from "./live-server.js";
 
  const startLiveUiServer =
    mockContext.startLiveUiServer ?? startLiveUiServerImpl;
+ const generateDependencyReport =
+   mockContext.generateDependencyReport ?? defaultGenerateDependencyReport;
  const oraFactory: OraFactory = mockContext.ora ?? ora;
  const chalkLib: ChalkInstance = mockContext.chalk ?? chalk;
 
@@ -105,6 +136,12 @@ import { startLiveUiServer as startLiveUiServerImpl } from "./live-server.js";
  function renderHelp(): void {
    console.log(`
 Usage: retracify [rootDir] [options]
+       retracify check [rootDir] [options]
+       retracify diff <base> [head] [options]
+       retracify fix [rootDir] [options]
+       retracify why <from> <to> [options]
+       retracify path <from> <to> [options]
+       retracify affected [files...] [options]
 
 Arguments:
   rootDir                Root directory to analyse (default: current directory)
@@ -113,25 +150,778 @@ Options:
   -p, --port <number>    Port for the live dashboard (default: 4173)
       --host <value>     Host/interface to bind (default: 127.0.0.1)
       --no-open          Do not launch a browser automatically
+  -o, --output <file>    Write the report to <file> and exit ("-" for stdout)
+  -r, --reporter <name>  Output format when exporting (default: from the --output
+                         extension, else html)
+      --format <value>   JSON payload shape: raw or client (default: raw; json only)
+      --cluster          Group graph nodes by top-level directory (dot)
+      --focus <package>  Only export the neighbourhood of <package> (graph reporters)
+      --depth <n>        Hops kept around --focus (default: 1)
+      --hide-leaves      Omit packages without internal dependencies (graph reporters)
+      --exclude <glob>   Skip matching paths, on top of the config (repeatable)
+      --include <glob>   Only analyse matching paths; replaces the config list (repeatable)
+  -c, --config <file>    Use a specific config file instead of auto-discovery
   -h, --help             Show this help message
 
+Settings are also read from retracify.config.{json,js,mjs,cjs,ts}, .retracifyrc
+or the "retracify" key of the root package.json. Flags take precedence.
+Globs are relative to rootDir unless they start with "**/" or are absolute.
+
+Reporters:
+${Object.entries(REPORTERS)
+  .map(([name, reporter]) => `  ${name.padEnd(23)}${reporter.description}`)
+  .join("\n")}
+
 Examples:
   retracify
   retracify ../workspace --port 4321
   retracify apps/catalog --host 0.0.0.0 --no-open
+  retracify --output artifacts/retracify.html
+  retracify --reporter json --format client > report.json
+  retracify -o docs/deps.md
+  retracify --reporter dot --cluster | dot -Tsvg > graph.svg
+  retracify --reporter mermaid --focus @acme/ui --depth 2 -o docs/ui.mmd
+  retracify --exclude "**/fixtures/**" --exclude examples
+  retracify check --max-cycles 0
+  retracify diff origin/main
+  retracify fix --dry-run
+  retracify why @acme/web @acme/ui
+  retracify path @acme/web @acme/charts --all
+  retracify affected --base origin/main
+
+Run "retracify <check|diff|fix|why|path|affected> --help" for subcommand options.
 `);
  }
 
+ const CHECK_THRESHOLD_FLAGS: Record<
+   CheckCategory,
+   | "max-cycles"
+   | "max-undeclared"
+   | "max-undeclared-external"
+   | "max-unused-external"
+   | "max-boundary-violations"
+   | "max-deep-imports"
+   | "max-invalid-ranges"
+   | "max-version-drift"
+   | "max-stale-lockfile"
+   | "max-unmirrored-peers"
+   | "max-critical"
+ > = {
+   cycles: "max-cycles",
+   undeclaredDeps: "max-undeclared",
+   undeclaredExternalDeps: "max-undeclared-external",
+   unusedExternalDeps: "max-unused-external",
+   boundaryViolations: "max-boundary-violations",
+   deepImports: "max-deep-imports",
+   workspaceRangeIssues: "max-invalid-ranges",
+   versionDrift: "max-version-drift",
+   staleLockfileRanges: "max-stale-lockfile",
+   unmirroredPeerDeps: "max-unmirrored-peers",
+   criticalPackages: "max-critical",
+ };
+
+ function renderCheckHelp(): void {
+   console.log(`
+Usage: retracify check [rootDir] [options]
+
+Builds the report once and exits with code 1 when findings exceed the allowed
+maximum. Without --max-* flags the "check" section of the config is used; when
+that is missing too, every category is checked with a max of 0.
+
+When the baseline file exists (default: ${DEFAULT_BASELINE_FILE} in the root),
+findings it already lists are not counted, so only new violations fail.
+
+Options:
+      --max-cycles <n>               Allowed cyclic edges
+      --max-undeclared <n>           Allowed undeclared workspace dependencies
+      --max-undeclared-external <n>  Allowed undeclared external dependencies
+      --max-unused-external <n>      Allowed unused external dependencies
+      --max-boundary-violations <n>  Allowed imports that break boundary rules
+      --max-deep-imports <n>         Allowed imports of subpaths a package does not export
+      --max-invalid-ranges <n>       Allowed invalid workspace dependency ranges
+      --max-version-drift <n>        Allowed external dependencies off the common range
+      --max-stale-lockfile <n>       Allowed declared ranges the lockfile no longer satisfies
+      --max-unmirrored-peers <n>     Allowed peer dependencies missing from devDependencies
+      --max-critical <n>             Allowed packages with critical severity
+      --baseline <file>              Baseline of accepted findings
+      --update-baseline              Drop fixed entries from the baseline and exit
+                                     (creates it from all findings when missing)
+      --accept-new                   Update the baseline and add new findings to it
+      --exclude <glob>               Skip matching paths (repeatable)
+      --include <glob>               Only analyse matching paths (repeatable)
+  -c, --config <file>                Use a specific config file
+  -h, --help                         Show this help message
+
+Examples:
+  retracify check
+  retracify check ../workspace --max-cycles 0 --max-undeclared 0
+  retracify check --update-baseline
+  retracify check --accept-new
+`);
+ }
+
+ function renderDiffHelp(): void {
+   console.log(`
+Usage: retracify diff <base> [head] [options]
+
+Builds a report for each git ref and prints added/removed internal edges, new
+and resolved cycles, undeclared or unused dependencies, and packages whose
+severity changed. Without [head] the current working tree is compared.
+
+Options:
+      --root <dir>       Root directory to analyse (default: current directory)
+      --json             Print the diff as JSON on stdout
+      --exclude <glob>   Skip matching paths (repeatable)
+      --include <glob>   Only analyse matching paths (repeatable)
+  -c, --config <file>    Use a specific config file
+  -h, --help             Show this help message
+
+Examples:
+  retracify diff main
+  retracify diff origin/main HEAD --root apps
+  retracify diff v1.2.0 v1.3.0 --json > diff.json
+`);
+ }
+
+ function renderFixHelp(): void {
+   console.log(`
+Usage: retracify fix [rootDir] [options]
+
+Updates package.json files to match the imports found in the source:
+undeclared workspace packages are added with the protocol the workspace
+already uses (default: ${DEFAULT_WORKSPACE_RANGE}) and undeclared external packages with
+the version range other packages declare. Formatting and key order are kept.
+
+Options:
+      --remove-unused    Also remove external dependencies that are never imported
+      --dry-run          Print a diff of the changes without writing files
+      --exclude <glob>   Skip matching paths (repeatable)
+      --include <glob>   Only analyse matching paths (repeatable)
+  -c, --config <file>    Use a specific config file
+  -h, --help             Show this help message
+
+Examples:
+  retracify fix --dry-run
+  retracify fix ../workspace --remove-unused
+`);
+ }
+
+ function renderWhyHelp(): void {
+   console.log(`
+Usage: retracify why <from> <to> [options]
+
+Lists every file of <from> that imports <to> with the specifier, its position,
+whether a tsconfig path alias or the package name resolved it and whether the
+import is type-only. Packages are given by name or directory; when <to> is not
+a workspace package it is looked up as an external dependency. Type-only
+imports of workspace packages are listed too, although they do not create a
+dependency. Exits with code 1 when <from> does not import <to>.
+
+Options:
+      --root <dir>       Root directory to analyse (default: current directory)
+      --json             Print the explanation as JSON on stdout
+      --exclude <glob>   Skip matching paths (repeatable)
+      --include <glob>   Only analyse matching paths (repeatable)
+  -c, --config <file>    Use a specific config file
+  -h, --help             Show this help message
+
+Examples:
+  retracify why @acme/web @acme/ui
+  retracify why apps/web lodash
+  retracify why @acme/web @acme/ui --root ../workspace --json
+`);
+ }
+
+ function renderPathHelp(): void {
+   console.log(`
+Usage: retracify path <from> <to> [options]
+
+Prints the shortest chain of internal dependencies from <from> to <to> with the
+files behind every hop. Exits with code 1 when <to> is not reachable.
+
+Options:
+      --all              Also list every simple path, shortest first
+      --max-paths <n>    Stop listing paths after <n> (default: ${DEFAULT_MAX_PATHS})
+      --root <dir>       Root directory to analyse (default: current directory)
+      --json             Print the paths as JSON on stdout
+      --exclude <glob>   Skip matching paths (repeatable)
+      --include <glob>   Only analyse matching paths (repeatable)
+  -c, --config <file>    Use a specific config file
+  -h, --help             Show this help message
+
+The live dashboard answers the same query at
+/api/path?from=<pkg>&to=<pkg>[&all=1][&max=<n>].
+
+Examples:
+  retracify path @acme/web @acme/charts
+  retracify path @acme/web @acme/charts --all --json
+`);
+ }
+
+ function renderAffectedHelp(): void {
+   console.log(`
+Usage: retracify affected [files...] [options]
+
+Maps changed files to the packages owning them and prints those packages plus
+every package that depends on them, one name per line. Files come from the
+arguments (relative to the current directory), from --stdin (relative to the
+git top-level, as git diff --name-only prints them) and from --base <ref>; the
+sources are combined.
+
+Options:
+      --base <ref>       Add the files changed since <ref> (git diff --name-only)
+      --stdin            Read changed files from stdin, one per line
+      --include-config   Mark every package affected when a root config file
+                         (package.json, tsconfig, eslint, jest, ...) changed
+      --root <dir>       Root directory to analyse (default: current directory)
+      --json             Print changed/affected packages and ignored files as JSON
+      --exclude <glob>   Skip matching paths (repeatable)
+      --include <glob>   Only analyse matching paths (repeatable)
+  -c, --config <file>    Use a specific config file
+  -h, --help             Show this help message
+
+Examples:
+  retracify affected --base origin/main
+  git diff --name-only HEAD~1 | retracify affected --stdin --include-config
+  retracify affected packages/ui/src/button.tsx --json
+`);
+ }
+
+ async function readStdin(): Promise<string> {
+   const chunks: Buffer[] = [];
+   for await (const chunk of process.stdin) {
+     chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+   }
+   return Buffer.concat(chunks).toString("utf8");
+ }
+
+ async function loadConfigOrExit(
+   rootDir: string,
+   explicitPath: string | undefined,
+ ): Promise<LoadedRetracifyConfig | null> {
+   try {
+     const loaded = await loadRetracifyConfig(rootDir, explicitPath?.trim());
+     if (loaded.source) {
+       console.error(chalkLib.gray(`Using config: ${loaded.source}`));
+     }
+     return loaded;
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     process.exit(1);
+     return null;
+   }
+ }
+
+ // --exclude adds to the configured list, --include replaces it.
+ function resolveScanOptions(
+   rootDir: string,
+   config: RetracifyConfig,
+   flags: { exclude?: string[]; include?: string[] },
+ ): ReportScanOptions {
+   const trimmed = (values: string[] | undefined) =>
+     (values ?? []).map((value) => value.trim()).filter(Boolean);
+   const include = trimmed(flags.include);
+   return resolveReportScanOptions(rootDir, {
+     ...config,
+     exclude: [...(config.exclude ?? []), ...trimmed(flags.exclude)],
+     include: include.length > 0 ? include : config.include,
+   });
+ }
+
+ async function runCheckCommand(args: string[]): Promise<void> {
+   let parsedArgs;
+   try {
+     parsedArgs = parseArgs({
+       args,
+       options: {
+         help: { type: "boolean", short: "h" },
+         "max-cycles": { type: "string" },
+         "max-undeclared": { type: "string" },
+         "max-undeclared-external": { type: "string" },
+         "max-unused-external": { type: "string" },
+         "max-boundary-violations": { type: "string" },
+         "max-deep-imports": { type: "string" },
+         "max-invalid-ranges": { type: "string" },
+         "max-version-drift": { type: "string" },
+         "max-stale-lockfile": { type: "string" },
+         "max-unmirrored-peers": { type: "string" },
+         "max-critical": { type: "string" },
+         baseline: { type: "string" },
+         "update-baseline": { type: "boolean" },
+         "accept-new": { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
+       },
+       allowPositionals: true,
+       strict: true,
+     });
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     renderCheckHelp();
+     process.exit(1);
+     return;
+   }
+
+   const { values, positionals } = parsedArgs;
+   if (values.help) {
+     renderCheckHelp();
+     process.exit(0);
+     return;
+   }
+
+   if (positionals.length > 1) {
+     console.error(
+       chalkLib.red(
+         "Too many positional arguments provided. Expected at most [rootDir].",
+       ),
+     );
+     renderCheckHelp();
+     process.exit(1);
+     return;
+   }
+
+   const thresholds: CheckThresholds = {};
+   for (const category of CHECK_CATEGORIES) {
+     const flag = CHECK_THRESHOLD_FLAGS[category];
+     const raw = values[flag];
+     if (typeof raw !== "string") continue;
+     const parsed = Number(raw.trim());
+     if (raw.trim().length === 0 || !Number.isInteger(parsed) || parsed < 0) {
+       console.error(
+         chalkLib.red(
+           `Invalid --${flag} value "${raw}". Expected a non-negative integer.`,
+         ),
+       );
+       process.exit(1);
+       return;
+     }
+     thresholds[category] = parsed;
+   }
+   const rootDir = positionals[0] ?? ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+
+   if (Object.keys(thresholds).length === 0) {
+     Object.assign(thresholds, loaded.config.check ?? {});
+   }
+   if (Object.keys(thresholds).length === 0) {
+     for (const category of CHECK_CATEGORIES) thresholds[category] = 0;
+   }
+
+   // CLI paths resolve from the cwd; the config path is relative to the root.
+   const baselineFile = values.baseline?.trim()
+     ? path.resolve(values.baseline.trim())
+     : path.resolve(rootDir, loaded.config.baseline ?? DEFAULT_BASELINE_FILE);
+
+   console.log(chalkLib.gray(`Root directory: ${rootDir}`));
+   console.log();
+
+   let passed = false;
+   try {
+     const result = await runCheck({
+       rootDir,
+       thresholds,
+       reportOptions: resolveScanOptions(rootDir, loaded.config, values),
+       baselineFile,
+       updateBaseline:
+         values["update-baseline"] === true || values["accept-new"] === true,
+       acceptNewFindings: values["accept-new"] === true,
+       generateReport: generateDependencyReport,
+       ora: oraFactory,
+       chalk: chalkLib,
+     });
+     passed = result.passed;
+   } catch {
+     passed = false;
+   }
+   process.exit(passed ? 0 : 1);
+ }
+
+ async function runDiffCommand(args: string[]): Promise<void> {
+   let parsedArgs;
+   try {
+     parsedArgs = parseArgs({
+       args,
+       options: {
+         help: { type: "boolean", short: "h" },
+         root: { type: "string" },
+         json: { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
+       },
+       allowPositionals: true,
+       strict: true,
+     });
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     renderDiffHelp();
+     process.exit(1);
+     return;
+   }
+
+   const { values, positionals } = parsedArgs;
+   if (values.help) {
+     renderDiffHelp();
+     process.exit(0);
+     return;
+   }
+
+   if (positionals.length < 1 || positionals.length > 2) {
+     console.error(
+       chalkLib.red("Expected a base ref and an optional head ref."),
+     );
+     renderDiffHelp();
+     process.exit(1);
+     return;
+   }
+
+   const [base, head] = positionals;
+   const rootDir = values.root?.trim() || ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+
+   try {
+     await runDiff({
+       rootDir,
+       base,
+       head,
+       json: values.json === true,
+       reportOptions: resolveScanOptions(rootDir, loaded.config, values),
+       generateReport: generateDependencyReport,
+       ora: oraFactory,
+       chalk: chalkLib,
+     });
+   } catch {
+     process.exit(1);
+     return;
+   }
+   process.exit(0);
+ }
+
+ async function runFixCommand(args: string[]): Promise<void> {
+   let parsedArgs;
+   try {
+     parsedArgs = parseArgs({
+       args,
+       options: {
+         help: { type: "boolean", short: "h" },
+         "remove-unused": { type: "boolean" },
+         "dry-run": { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
+       },
+       allowPositionals: true,
+       strict: true,
+     });
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     renderFixHelp();
+     process.exit(1);
+     return;
+   }
+
+   const { values, positionals } = parsedArgs;
+   if (values.help) {
+     renderFixHelp();
+     process.exit(0);
+     return;
+   }
+
+   if (positionals.length > 1) {
+     console.error(
+       chalkLib.red(
+         "Too many positional arguments provided. Expected at most [rootDir].",
+       ),
+     );
+     renderFixHelp();
+     process.exit(1);
+     return;
+   }
+
+   const rootDir = positionals[0] ?? ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+
+   console.log(chalkLib.gray(`Root directory: ${rootDir}`));
+   console.log();
+
+   try {
+     await runFix({
+       rootDir,
+       reportOptions: resolveScanOptions(rootDir, loaded.config, values),
+       removeUnused: values["remove-unused"] === true,
+       dryRun: values["dry-run"] === true,
+       generateReport: generateDependencyReport,
+       ora: oraFactory,
+       chalk: chalkLib,
+     });
+   } catch {
+     process.exit(1);
+     return;
+   }
+   process.exit(0);
+ }
+
+ async function runWhyCommand(args: string[]): Promise<void> {
+   let parsedArgs;
+   try {
+     parsedArgs = parseArgs({
+       args,
+       options: {
+         help: { type: "boolean", short: "h" },
+         root: { type: "string" },
+         json: { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
+       },
+       allowPositionals: true,
+       strict: true,
+     });
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     renderWhyHelp();
+     process.exit(1);
+     return;
+   }
+
+   const { values, positionals } = parsedArgs;
+   if (values.help) {
+     renderWhyHelp();
+     process.exit(0);
+     return;
+   }
+
+   if (positionals.length !== 2) {
+     console.error(
+       chalkLib.red("Expected the importing package and the imported package."),
+     );
+     renderWhyHelp();
+     process.exit(1);
+     return;
+   }
+
+   const [from, to] = positionals;
+   const rootDir = values.root?.trim() || ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+
+   let found = false;
+   try {
+     const explanation = await runWhy({
+       rootDir,
+       from,
+       to,
+       json: values.json === true,
+       reportOptions: resolveScanOptions(rootDir, loaded.config, values),
+       generateReport: generateDependencyReport,
+       ora: oraFactory,
+       chalk: chalkLib,
+     });
+     found = explanation.files.length > 0;
+   } catch {
+     found = false;
+   }
+   process.exit(found ? 0 : 1);
+ }
+
+ async function runPathCommand(args: string[]): Promise<void> {
+   let parsedArgs;
+   try {
+     parsedArgs = parseArgs({
+       args,
+       options: {
+         help: { type: "boolean", short: "h" },
+         all: { type: "boolean" },
+         "max-paths": { type: "string" },
+         root: { type: "string" },
+         json: { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
+       },
+       allowPositionals: true,
+       strict: true,
+     });
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     renderPathHelp();
+     process.exit(1);
+     return;
+   }
+
+   const { values, positionals } = parsedArgs;
+   if (values.help) {
+     renderPathHelp();
+     process.exit(0);
+     return;
+   }
+
+   if (positionals.length !== 2) {
+     console.error(
+       chalkLib.red("Expected the package to start from and the package to reach."),
+     );
+     renderPathHelp();
+     process.exit(1);
+     return;
+   }
+
+   const rawMaxPaths = values["max-paths"]?.trim() ?? "";
+   const maxPaths = rawMaxPaths.length > 0 ? Number(rawMaxPaths) : undefined;
+   if (maxPaths !== undefined && (!Number.isInteger(maxPaths) || maxPaths < 1)) {
+     console.error(
+       chalkLib.red(
+         `Invalid --max-paths value "${rawMaxPaths}". Expected a positive integer.`,
+       ),
+     );
+     process.exit(1);
+     return;
+   }
+
+   const [from, to] = positionals;
+   const rootDir = values.root?.trim() || ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+
+   let found = false;
+   try {
+     const result = await runPath({
+       rootDir,
+       from,
+       to,
+       all: values.all === true,
+       maxPaths,
+       json: values.json === true,
+       reportOptions: resolveScanOptions(rootDir, loaded.config, values),
+       generateReport: generateDependencyReport,
+       ora: oraFactory,
+       chalk: chalkLib,
+     });
+     found = result.shortest !== null;
+   } catch {
+     found = false;
+   }
+   process.exit(found ? 0 : 1);
+ }
+
+ async function runAffectedCommand(args: string[]): Promise<void> {
+   let parsedArgs;
+   try {
+     parsedArgs = parseArgs({
+       args,
+       options: {
+         help: { type: "boolean", short: "h" },
+         base: { type: "string" },
+         stdin: { type: "boolean" },
+         "include-config": { type: "boolean" },
+         root: { type: "string" },
+         json: { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
+       },
+       allowPositionals: true,
+       strict: true,
+     });
+   } catch (error) {
+     console.error(chalkLib.red((error as Error).message));
+     renderAffectedHelp();
+     process.exit(1);
+     return;
+   }
+
+   const { values, positionals } = parsedArgs;
+   if (values.help) {
+     renderAffectedHelp();
+     process.exit(0);
+     return;
+   }
+
+   const base = values.base?.trim();
+   if (positionals.length === 0 && !base && !values.stdin) {
+     console.error(
+       chalkLib.red("Pass changed files, --stdin or --base <ref>."),
+     );
+     renderAffectedHelp();
+     process.exit(1);
+     return;
+   }
+
+   const stdinFiles = values.stdin ? parseFileList(await readStdin()) : [];
+
+   const rootDir = values.root?.trim() || ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+
+   try {
+     await runAffected({
+       rootDir,
+       files: positionals,
+       stdinFiles,
+       base,
+       includeConfig: values["include-config"] === true,
+       json: values.json === true,
+       reportOptions: resolveScanOptions(rootDir, loaded.config, values),
+       generateReport: generateDependencyReport,
+       ora: oraFactory,
+       chalk: chalkLib,
+     });
+   } catch {
+     process.exit(1);
+     return;
+   }
+   process.exit(0);
+ }
+
  (async () => {
+   const argv = process.argv.slice(2);
+   if (argv[0] === "check") {
+     await runCheckCommand(argv.slice(1));
+     return;
+   }
+   if (argv[0] === "diff") {
+     await runDiffCommand(argv.slice(1));
+     return;
+   }
+   if (argv[0] === "fix") {
+     await runFixCommand(argv.slice(1));
+     return;
+   }
+   if (argv[0] === "why") {
+     await runWhyCommand(argv.slice(1));
+     return;
+   }
+   if (argv[0] === "path") {
+     await runPathCommand(argv.slice(1));
+     return;
+   }
+   if (argv[0] === "affected") {
+     await runAffectedCommand(argv.slice(1));
+     return;
+   }
+
    let parsedArgs;
    try {
      parsedArgs = parseArgs({
-       args: process.argv.slice(2),
+       args: argv,
        options: {
          help: { type: "boolean", short: "h" },
          port: { type: "string", short: "p" },
          host: { type: "string" },
          "no-open": { type: "boolean" },
+         output: { type: "string", short: "o" },
+         reporter: { type: "string", short: "r" },
+         format: { type: "string" },
+         cluster: { type: "boolean" },
+         focus: { type: "string" },
+         depth: { type: "string" },
+         "hide-leaves": { type: "boolean" },
+         exclude: { type: "string", multiple: true },
+         include: { type: "string", multiple: true },
+         config: { type: "string", short: "c" },
        },
        allowPositionals: true,
        strict: true,
@@ -159,14 +949,73 @@ Examples:
      );
      renderHelp();
      process.exit(1);
+     return;
    }
 
    const rootDir = positionals[0] ?? ".";
+   const loaded = await loadConfigOrExit(rootDir, values.config);
+   if (!loaded) return;
+   const serverConfig = loaded.config.server ?? {};
+   const reportOptions = resolveScanOptions(rootDir, loaded.config, values);
+
    const rawPort = values.port ? values.port.trim() : "";
-   const host = values.host ? values.host.trim() : "127.0.0.1";
-   const autoOpen = !values["no-open"];
+   const host = values.host
+     ? values.host.trim()
+     : (serverConfig.host ?? "127.0.0.1");
+   const autoOpen = values["no-open"] ? false : (serverConfig.open ?? true);
+   const outputFile = values.output ? values.output.trim() : "";
+   const writesToStdout = outputFile.length === 0 || outputFile === "-";
+   const reporter = values.reporter
+     ? values.reporter.trim()
+     : writesToStdout
+       ? ""
+       : (reporterForOutputFile(outputFile) ?? "");
+   const format = values.format ? values.format.trim() : "raw";
+   const exportRequested = outputFile.length > 0 || reporter.length > 0;
+
+   if (reporter.length > 0 && !isKnownReporter(reporter)) {
+     console.error(
+       chalkLib.red(
+         `Unknown --reporter value "${reporter}". Expected one of: ${Object.keys(REPORTERS).join(", ")}.`,
+       ),
+     );
+     process.exit(1);
+     return;
+   }
+
+   if (!JSON_PAYLOAD_FORMATS.includes(format as JsonPayloadFormat)) {
+     console.error(
+       chalkLib.red(
+         `Invalid --format value "${format}". Expected one of: ${JSON_PAYLOAD_FORMATS.join(", ")}.`,
+       ),
+     );
+     process.exit(1);
+     return;
+   }
+
+   if (values.format !== undefined && reporter !== "json") {
+     console.error(
+       chalkLib.red(
+         "--format only applies to the json reporter; add --reporter json or write to a .json file.",
+       ),
+     );
+     process.exit(1);
+     return;
+   }
 
-   let port = 4173;
+   const rawDepth = values.depth ? values.depth.trim() : "";
+   const depth = rawDepth.length > 0 ? Number(rawDepth) : undefined;
+   if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+     console.error(
+       chalkLib.red(
+         `Invalid --depth value "${rawDepth}". Expected a non-negative integer.`,
+       ),
+     );
+     process.exit(1);
+     return;
+   }
+
+   let port = serverConfig.port ?? 4173;
    if (rawPort.length > 0) {
      const parsed = Number.parseInt(rawPort, 10);
      if (Number.isNaN(parsed) || parsed < 1 || parsed > 65535) {
@@ -181,6 +1030,35 @@ Examples:
      port = parsed;
    }
 
+   if (exportRequested) {
+     if (!writesToStdout) {
+       renderCliBanner();
+       console.log(chalkLib.gray(`Root directory: ${rootDir}`));
+       console.log();
+     }
+     try {
+       await exportReport({
+         rootDir,
+         reporter: reporter || "html",
+         outputFile: writesToStdout ? undefined : outputFile,
+         reporterOptions: {
+           format: format as JsonPayloadFormat,
+           cluster: values.cluster === true,
+           focus: values.focus?.trim() || undefined,
+           depth,
+           hideLeaves: values["hide-leaves"] === true,
+         },
+         reportOptions,
+         generateReport: generateDependencyReport,
+         ora: oraFactory,
+         chalk: chalkLib,
+       });
+     } catch {
+       process.exit(1);
+     }
+     return;
+   }
+
    renderCliBanner();
 
    console.log(chalkLib.gray(`Root directory: ${rootDir}`));
@@ -192,10 +1070,16 @@ Examples:
      rootDir,
      port,
      host,
-     generateReport: defaultGenerateDependencyReport,
+     generateReport: generateDependencyReport,
      ora: oraFactory,
      chalk: chalkLib,
      autoOpen,
+     exclude: reportOptions.exclude,
+     include: reportOptions.include,
+     toolingPatterns: reportOptions.toolingPatterns,
+     boundaries: reportOptions.boundaries,
+     allPackages: reportOptions.allPackages,
+     watchIgnore: serverConfig.watchIgnore,
    });
  })().catch((error: unknown) => {
    console.error(chalkLib.red((error as Error).message));
@@ -6,16 +6,20 @@ import { watch } from "node:fs";
 import open from "open";
 import type { ChalkInstance } from "chalk";
 import type { Ora, Options as OraOptions } from "ora";
+import { findDependencyPaths } from "./dependency-path.js";
 import {
+  CRITICAL_REBUILD_PATTERNS,
   IncrementalDependencyReportBuilder,
   generateDependencyReport as defaultGenerateDependencyReport,
 } from "./graph.js";
 import type {
+  BoundaryConfig,
   DependencyReport,
   GenerateReportSnapshotEvent,
 } from "./types.js";
 import {
   buildClientViewModel,
+  matchesGlobPatterns,
   renderHtmlReport,
   type BuildClientViewModelResult,
   type ReportClientPayload,
@@ -52,6 +56,14 @@ export interface StartLiveUiServerOptions {
   ora: OraFactory;
   chalk: ChalkInstance;
   autoOpen?: boolean;
+  exclude?: string[];
+  /** Absolute globs limiting analysis (and watching) to matching paths. */
+  include?: string[];
+  toolingPatterns?: RegExp[];
+  boundaries?: BoundaryConfig;
+  allPackages?: boolean;
+  /** Extra directory names the file watcher should ignore. */
+  watchIgnore?: string[];
 }
 
 export async function startLiveUiServer({
@@ -62,6 +74,12 @@ export async function startLiveUiServer({
   ora,
   chalk,
   autoOpen = true,
+  exclude,
+  include = [],
+  toolingPatterns,
+  boundaries,
+  allPackages,
+  watchIgnore = [],
 }: StartLiveUiServerOptions): Promise<void> {
   const normalizedRoot = path.resolve(rootDir);
   const canUseBuilder =
@@ -69,6 +87,7 @@ export async function startLiveUiServer({
   const pendingFileChanges = new Set<string>();
   let builder: IncrementalDependencyReportBuilder | null = null;
   const clients = new Set<http.ServerResponse>();
+  let latestReport: DependencyReport | null = null;
   let latestView: BuildClientViewModelResult | null = null;
   let latestPayload: ReportClientPayload | null = null;
   let latestHtml = "";
@@ -108,6 +127,11 @@ export async function startLiveUiServer({
       return;
     }
 
+    if (url.pathname === "/api/path") {
+      handlePathQuery(res, url.searchParams, latestReport);
+      return;
+    }
+
     if (url.pathname === "/favicon.ico") {
       res.writeHead(204).end();
       return;
@@ -208,6 +232,11 @@ export async function startLiveUiServer({
         if (!builder) {
           builder = new IncrementalDependencyReportBuilder({
             rootDir: normalizedRoot,
+            exclude,
+            include,
+            toolingPatterns,
+            boundaries,
+            allPackages,
           });
         }
         report = await builder.buildReport({
@@ -218,11 +247,17 @@ export async function startLiveUiServer({
       } else {
         report = await generateReport({
           rootDir: normalizedRoot,
+          exclude,
+          include,
+          toolingPatterns,
+          boundaries,
+          allPackages,
           onProgress: handleProgress,
           onSnapshot: handleSnapshot,
         });
       }
 
+      latestReport = report;
       latestView = buildClientViewModel(report);
       latestPayload = latestView.payload;
 
@@ -292,13 +327,40 @@ export async function startLiveUiServer({
     "coverage",
     ".cache",
     ".idea",
+    ...watchIgnore,
   ]);
 
+  // Directories above an include pattern must stay watched so new matches
+  // below them are still picked up; "**/x" style patterns can match anywhere.
+  const includeBases = include.map(globBase);
+  const isIncludeAncestor = (targetPath: string) =>
+    includeBases.some(
+      (base) =>
+        base.startsWith(`${targetPath}${path.sep}`) ||
+        base === targetPath ||
+        !base.startsWith(normalizedRoot),
+    );
+
   const shouldIgnore = (targetPath: string): boolean => {
     const relative = path.relative(normalizedRoot, targetPath);
     if (relative.startsWith("..")) return true;
     const segments = relative.split(path.sep).filter(Boolean);
-    return segments.some((segment) => ignoredNames.has(segment));
+    if (segments.some((segment) => ignoredNames.has(segment))) return true;
+    if (relative === "") return false;
+    if (exclude && matchesGlobPatterns(targetPath, exclude)) return true;
+    // Root manifests, tsconfigs and lockfiles shape the analysis of every
+    // package, so the include filter never hides them.
+    if (
+      segments.length === 1 &&
+      CRITICAL_REBUILD_PATTERNS.some((pattern) => pattern.test(relative))
+    ) {
+      return false;
+    }
+    return (
+      include.length > 0 &&
+      !matchesGlobPatterns(targetPath, include) &&
+      !isIncludeAncestor(path.resolve(targetPath))
+    );
   };
 
   const removeWatchersUnder = (dir: string) => {
@@ -529,6 +591,52 @@ function handleSse(
   });
 }
 
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res
+    .writeHead(status, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-cache",
+    })
+    .end(JSON.stringify(body));
+}
+
+// GET /api/path?from=<pkg>&to=<pkg>[&all=1][&max=<n>]
+function handlePathQuery(
+  res: http.ServerResponse,
+  params: URLSearchParams,
+  report: DependencyReport | null,
+) {
+  if (!report) {
+    res.writeHead(204).end();
+    return;
+  }
+  const from = params.get("from");
+  const to = params.get("to");
+  if (!from || !to) {
+    sendJson(res, 400, { error: 'Both "from" and "to" are required.' });
+    return;
+  }
+  const max = params.get("max");
+  const maxPaths = max === null ? undefined : Number(max);
+  if (maxPaths !== undefined && (!Number.isInteger(maxPaths) || maxPaths < 1)) {
+    sendJson(res, 400, { error: '"max" must be a positive integer.' });
+    return;
+  }
+  const all = params.get("all");
+  try {
+    sendJson(
+      res,
+      200,
+      findDependencyPaths(report, from, to, {
+        all: all !== null && all !== "0" && all !== "false",
+        maxPaths,
+      }),
+    );
+  } catch (error) {
+    sendJson(res, 404, { error: (error as Error).message });
+  }
+}
+
 function broadcastEvent(event: LiveEvent, clients: Set<http.ServerResponse>) {
   const data = `data: ${JSON.stringify(event)}\n\n`;
   for (const client of clients) {
@@ -544,6 +652,14 @@ function broadcastEvent(event: LiveEvent, clients: Set<http.ServerResponse>) {
   }
 }
 
+// Leading path segments of a glob, up to the first wildcard.
+function globBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => /[*?{[]/.test(segment));
+  const base = firstGlob === -1 ? segments : segments.slice(0, firstGlob);
+  return path.resolve(base.join("/") || "/");
+}
+
 function relativePath(filePath: string, rootDir: string): string {
   const relative = path.relative(rootDir, filePath);
   return relative.startsWith("..") ? path.basename(filePath) : relative;
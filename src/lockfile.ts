@@ -0,0 +1,362 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { compareVersions, parseVersion, satisfiesRange } from "./semver.js";
+
+export type LockfileKind = "bun" | "pnpm" | "npm" | "yarn";
+
+/** Supported lockfiles in lookup order; the first one found wins. */
+export const LOCKFILE_NAMES: [string, LockfileKind][] = [
+  ["bun.lock", "bun"],
+  ["pnpm-lock.yaml", "pnpm"],
+  ["package-lock.json", "npm"],
+  ["yarn.lock", "yarn"],
+];
+
+export interface Lockfile {
+  /** Lockfile name relative to the root, e.g. "pnpm-lock.yaml". */
+  file: string;
+  kind: LockfileKind;
+  /** Every version installed per package name, sorted. */
+  installed: Map<string, string[]>;
+  /**
+   * Resolved version per lookup key: `<importer dir>\0<name>` for pnpm, the
+   * node_modules path for npm, `<name>@<range>` for yarn and the package key
+   * for bun.
+   */
+  resolved: Map<string, string>;
+}
+
+export interface LockfileDuplicate {
+  name: string;
+  versions: string[];
+  /** Workspace packages depending on it, sorted. */
+  packages: string[];
+}
+
+export interface StaleLockfileRange {
+  packageName: string;
+  dependency: string;
+  range: string;
+  resolvedVersions: string[];
+}
+
+const DEPENDENCY_GROUPS = new Set([
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+]);
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+function createLockfile(file: string, kind: LockfileKind) {
+  const lockfile: Lockfile = {
+    file,
+    kind,
+    installed: new Map(),
+    resolved: new Map(),
+  };
+  // Versions that are not semver (git URLs, `link:`, `workspace:`) are skipped.
+  const record = (key: string | null, name: string, version: string) => {
+    if (!parseVersion(version)) return;
+    if (key !== null) lockfile.resolved.set(key, version);
+    const versions = lockfile.installed.get(name) ?? [];
+    if (!versions.includes(version)) {
+      lockfile.installed.set(
+        name,
+        [...versions, version].sort((a, b) =>
+          compareVersions(parseVersion(a)!, parseVersion(b)!),
+        ),
+      );
+    }
+  };
+  return { lockfile, record };
+}
+
+interface NpmV1Dependency {
+  version?: string;
+  dependencies?: Record<string, NpmV1Dependency>;
+}
+
+function parseNpmLockfile(content: string, file: string): Lockfile {
+  const { lockfile, record } = createLockfile(file, "npm");
+  const data = JSON.parse(content) as {
+    packages?: Record<
+      string,
+      { name?: string; version?: string; link?: boolean }
+    >;
+    dependencies?: Record<string, NpmV1Dependency>;
+  };
+  if (data.packages) {
+    for (const [key, entry] of Object.entries(data.packages)) {
+      const marker = key.lastIndexOf("node_modules/");
+      if (marker === -1 || entry.link || !entry.version) continue;
+      const name = entry.name ?? key.slice(marker + "node_modules/".length);
+      record(key, name, entry.version);
+    }
+    return lockfile;
+  }
+  // lockfileVersion 1 nests dependencies instead of listing install paths.
+  const visit = (deps: Record<string, NpmV1Dependency>, prefix: string) => {
+    for (const [name, entry] of Object.entries(deps)) {
+      const key = `${prefix}node_modules/${name}`;
+      if (entry.version) record(key, name, entry.version);
+      if (entry.dependencies) visit(entry.dependencies, `${key}/`);
+    }
+  };
+  visit(data.dependencies ?? {}, "");
+  return lockfile;
+}
+
+function parseBunLockfile(content: string, file: string): Lockfile {
+  const { lockfile, record } = createLockfile(file, "bun");
+  // bun.lock is JSON with trailing commas.
+  const data = JSON.parse(content.replace(/,(\s*[}\]])/g, "$1")) as {
+    packages?: Record<string, unknown[]>;
+  };
+  for (const [key, entry] of Object.entries(data.packages ?? {})) {
+    const [ident] = entry;
+    if (typeof ident !== "string") continue;
+    const at = ident.lastIndexOf("@");
+    if (at <= 0) continue;
+    record(key, ident.slice(0, at), ident.slice(at + 1));
+  }
+  return lockfile;
+}
+
+// Only the parts of pnpm-lock.yaml needed here are read: the importers (or
+// the root dependency groups of single-project lockfiles) and package keys.
+function parsePnpmLockfile(content: string, file: string): Lockfile {
+  const { lockfile, record } = createLockfile(file, "pnpm");
+  let majorVersion = 9;
+  let section = "";
+  let importer = ".";
+  let depsIndent: number | null = null;
+  let depName: string | null = null;
+
+  // v5 appends peer suffixes with "_", later versions with "(...)".
+  const cleanVersion = (value: string) =>
+    majorVersion < 6 ? value.replace(/_.*$/, "") : value.replace(/\(.*$/, "");
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const match = /^('[^']*'|"[^"]*"|[^:]+?):(?:\s+(.*))?$/.exec(trimmed);
+    if (!match) continue;
+    const indent = line.length - line.trimStart().length;
+    const key = unquote(match[1]);
+    const value = match[2] === undefined ? "" : unquote(match[2]);
+
+    if (indent === 0) {
+      section = key;
+      if (key === "lockfileVersion") majorVersion = parseInt(value, 10) || 9;
+      importer = ".";
+      depsIndent = DEPENDENCY_GROUPS.has(key) ? 2 : null;
+      depName = null;
+      continue;
+    }
+
+    if (section === "importers") {
+      if (indent === 2) {
+        importer = key;
+        depsIndent = null;
+        continue;
+      }
+      if (indent === 4) {
+        depsIndent = DEPENDENCY_GROUPS.has(key) ? 6 : null;
+        continue;
+      }
+    }
+
+    if (section === "packages" && indent === 2) {
+      const ident = key.replace(/^\//, "");
+      if (majorVersion < 6) {
+        const slash = ident.lastIndexOf("/");
+        if (slash <= 0) continue;
+        record(
+          null,
+          ident.slice(0, slash),
+          cleanVersion(ident.slice(slash + 1)),
+        );
+      } else {
+        const bare = cleanVersion(ident);
+        const at = bare.lastIndexOf("@");
+        if (at <= 0) continue;
+        record(null, bare.slice(0, at), bare.slice(at + 1));
+      }
+      continue;
+    }
+
+    if (depsIndent === null) continue;
+    if (indent === depsIndent) {
+      depName = key;
+      // v5 writes the version inline: `react: 18.2.0`.
+      if (value) record(`${importer}\0${key}`, key, cleanVersion(value));
+    } else if (indent === depsIndent + 2 && key === "version" && depName) {
+      record(`${importer}\0${depName}`, depName, cleanVersion(value));
+    }
+  }
+  return lockfile;
+}
+
+// Covers both the classic format (`version "1.0.0"`) and Berry
+// (`version: 1.0.0`, descriptors prefixed with `npm:`).
+function parseYarnLockfile(content: string, file: string): Lockfile {
+  const { lockfile, record } = createLockfile(file, "yarn");
+  let descriptors: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    if (!/^\s/.test(line)) {
+      descriptors = line.replace(/:\s*$/, "").split(",").map(unquote);
+      continue;
+    }
+    const version = /^ {2}version:?\s+"?([^"\s]+)"?\s*$/.exec(line);
+    if (!version) continue;
+    for (const descriptor of descriptors) {
+      const at = descriptor.indexOf("@", 1);
+      if (at === -1) continue;
+      const name = descriptor.slice(0, at);
+      const range = descriptor.slice(at + 1).replace(/^npm:/, "");
+      record(`${name}@${range}`, name, version[1]);
+    }
+  }
+  return lockfile;
+}
+
+const PARSERS: Record<
+  LockfileKind,
+  (content: string, file: string) => Lockfile
+> = {
+  bun: parseBunLockfile,
+  pnpm: parsePnpmLockfile,
+  npm: parseNpmLockfile,
+  yarn: parseYarnLockfile,
+};
+
+export function parseLockfile(
+  content: string,
+  file: string,
+  kind: LockfileKind,
+): Lockfile {
+  return PARSERS[kind](content, file);
+}
+
+/**
+ * Read the first supported lockfile in `rootDir`. Returns null when there is
+ * none or it cannot be parsed, so the report simply omits installed versions.
+ */
+export async function readLockfile(rootDir: string): Promise<Lockfile | null> {
+  for (const [file, kind] of LOCKFILE_NAMES) {
+    let content: string;
+    try {
+      content = await readFile(path.join(rootDir, file), "utf8");
+    } catch {
+      continue;
+    }
+    try {
+      return parseLockfile(content, file, kind);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Versions `pkg` gets for `dependency`. When the lockfile has no entry for
+ * the package (e.g. an undeclared import) the only installed version is
+ * used, if there is exactly one.
+ */
+export function resolveInstalledVersions(
+  lockfile: Lockfile,
+  pkg: { name: string; relativeDir: string },
+  dependency: string,
+  range?: string,
+): string[] {
+  const dir = pkg.relativeDir.split(path.sep).join("/");
+  const keys: string[] = [];
+  switch (lockfile.kind) {
+    case "pnpm":
+      keys.push(`${dir}\0${dependency}`);
+      break;
+    case "npm":
+      // Node resolution: the package's own node_modules first, then parents.
+      for (let current = dir === "." ? "" : dir; ; ) {
+        keys.push(
+          current
+            ? `${current}/node_modules/${dependency}`
+            : `node_modules/${dependency}`,
+        );
+        if (!current) break;
+        const parent = path.posix.dirname(current);
+        current = parent === "." ? "" : parent;
+      }
+      break;
+    case "yarn":
+      if (range) keys.push(`${dependency}@${range}`);
+      break;
+    case "bun":
+      keys.push(`${pkg.name}/${dependency}`, dependency);
+      break;
+  }
+  for (const key of keys) {
+    const version = lockfile.resolved.get(key);
+    if (version) return [version];
+  }
+  const installed = lockfile.installed.get(dependency) ?? [];
+  return installed.length === 1 ? installed : [];
+}
+
+/**
+ * External dependencies installed at more than one version, and declared
+ * ranges none of the resolved versions satisfy any more.
+ */
+export function findLockfileIssues(
+  packages: {
+    name: string;
+    declaredVersionRanges?: Record<string, string>;
+    externalDependencies: {
+      name: string;
+      resolvedVersions?: string[];
+      installedVersions?: string[];
+    }[];
+  }[],
+): { duplicates: LockfileDuplicate[]; staleRanges: StaleLockfileRange[] } {
+  const duplicatesByName = new Map<string, LockfileDuplicate>();
+  const staleRanges: StaleLockfileRange[] = [];
+  for (const pkg of packages) {
+    for (const dep of pkg.externalDependencies) {
+      const installed = dep.installedVersions ?? [];
+      if (installed.length > 1) {
+        const duplicate = duplicatesByName.get(dep.name) ?? {
+          name: dep.name,
+          versions: installed,
+          packages: [],
+        };
+        duplicate.packages.push(pkg.name);
+        duplicatesByName.set(dep.name, duplicate);
+      }
+
+      const range = pkg.declaredVersionRanges?.[dep.name];
+      const resolved = dep.resolvedVersions ?? [];
+      if (
+        range &&
+        resolved.length > 0 &&
+        resolved.every((version) => satisfiesRange(version, range) === false)
+      ) {
+        staleRanges.push({
+          packageName: pkg.name,
+          dependency: dep.name,
+          range,
+          resolvedVersions: resolved,
+        });
+      }
+    }
+  }
+  const duplicates = Array.from(duplicatesByName.values())
+    .map((duplicate) => ({
+      ...duplicate,
+      packages: duplicate.packages.sort(),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return { duplicates, staleRanges };
+}
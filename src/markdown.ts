@@ -0,0 +1,265 @@
+import path from "path";
+import type { DependencyReport } from "./types.js";
+import {
+  buildClientViewModel,
+  type ReportClientCycleEdge,
+  type ReportClientPackage,
+  type ReportClientVersionDrift,
+} from "./utils.js";
+
+// Keep user-controlled names from breaking table cells or inline code spans.
+function code(value: string): string {
+  return `\`${value.replace(/`/g, "'").replace(/\|/g, "\\|")}\``;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+const SEVERITY_LABELS: Record<ReportClientPackage["severityLevel"], string> = {
+  stable: "Stable",
+  watch: "Needs Review",
+  critical: "High Risk",
+};
+
+function codeList(values: string[]): string {
+  return values.map(code).join(", ");
+}
+
+function plural(
+  count: number,
+  singular: string,
+  pluralForm = `${singular}s`,
+): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function details(summary: string, body: string[]): string[] {
+  return [
+    "<details>",
+    `<summary>${summary}</summary>`,
+    "",
+    ...body,
+    "",
+    "</details>",
+  ];
+}
+
+function renderCycleTable(edges: ReportClientCycleEdge[]): string[] {
+  return [
+    "| Packages | Severity | Edges | Files | Sample |",
+    "| --- | --- | --- | --- | --- |",
+    ...edges.map((edge) => {
+      const sample = edge.sampleFiles[0]
+        ? `${code(edge.sampleFiles[0].file)} (${code(edge.sampleFiles[0].ownerName)})`
+        : "–";
+      return `| ${code(edge.fromName)} ⇄ ${code(edge.toName)} | ${edge.severity} | ${
+        edge.edgeCount
+      } | ${edge.referenceFileCount} | ${sample} |`;
+    }),
+  ];
+}
+
+function renderVersionDriftTable(
+  dependencies: ReportClientVersionDrift[],
+): string[] {
+  return [
+    "| Dependency | Kind | Ranges |",
+    "| --- | --- | --- |",
+    ...dependencies.map((drift) => {
+      const ranges = drift.ranges
+        .map(
+          (entry) =>
+            `${code(entry.range)} (${entry.packages
+              .map((pkg) => code(pkg.name))
+              .join(", ")})`,
+        )
+        .join("<br>");
+      return `| ${code(drift.name)} | ${drift.kind} | ${ranges} |`;
+    }),
+  ];
+}
+
+function packageIssues(pkg: ReportClientPackage): string[] {
+  const issues: string[] = [];
+  if (pkg.cyclicDeps.length > 0) {
+    issues.push(`- Cyclic dependencies: ${codeList(pkg.cyclicDeps)}`);
+  }
+  if (pkg.undeclaredDeps.length > 0) {
+    issues.push(
+      `- Undeclared workspace dependencies: ${codeList(pkg.undeclaredDeps)}`,
+    );
+  }
+  if (pkg.undeclaredExternalDeps.length > 0) {
+    issues.push(
+      `- Undeclared external dependencies: ${codeList(pkg.undeclaredExternalDeps)}`,
+    );
+  }
+  if (pkg.unusedExternalDeps.length > 0) {
+    issues.push(
+      `- Unused external dependencies: ${codeList(pkg.unusedExternalDeps)}`,
+    );
+  }
+  for (const violation of pkg.boundaryViolations ?? []) {
+    issues.push(
+      `- Boundary violation: ${code(violation.target)} (${violation.message})`,
+    );
+  }
+  for (const violation of pkg.deepImportViolations ?? []) {
+    issues.push(
+      `- Import past package exports: ${code(violation.target)} ${code(violation.subpath)} (${codeList(violation.files)})`,
+    );
+  }
+  for (const issue of pkg.workspaceRangeIssues ?? []) {
+    issues.push(
+      `- Invalid workspace range: ${code(issue.dependency)} ${code(issue.range)} (${issue.message})`,
+    );
+  }
+  if ((pkg.unmirroredPeerDeps ?? []).length > 0) {
+    issues.push(
+      `- Peer dependencies missing from devDependencies: ${codeList(pkg.unmirroredPeerDeps)}`,
+    );
+  }
+  for (const stale of pkg.staleLockfileRanges ?? []) {
+    issues.push(
+      `- Stale lockfile range: ${code(stale.dependency)} ${code(stale.range)} (installed ${codeList(stale.resolvedVersions)})`,
+    );
+  }
+  if (pkg.severityLevel !== "stable" && pkg.severitySignals.length > 0) {
+    issues.push(`- Signals: ${pkg.severitySignals.join(", ")}`);
+  }
+  return issues;
+}
+
+/**
+ * Compact Markdown summary meant for pull request descriptions and RFCs.
+ * Long lists are wrapped in `<details>` blocks so the comment stays short.
+ */
+export function renderMarkdownReport(
+  report: DependencyReport,
+  projectRoot: string,
+): string {
+  const { payload } = buildClientViewModel(report);
+  const { summary, insights } = payload;
+  const lines: string[] = [
+    `# Retracify report: ${path.basename(projectRoot) || projectRoot}`,
+    "",
+    `_Generated ${payload.meta.generatedAt}_`,
+    "",
+    "| Metric | Value |",
+    "| --- | --- |",
+    `| Packages | ${summary.packageCount} |`,
+    `| Internal dependencies | ${summary.dependencyCount} |`,
+    `| Cyclic dependencies | ${summary.cyclicDependencyCount} (${plural(
+      insights.cycles.packageCount,
+      "package",
+    )}) |`,
+    `| Undeclared workspace dependencies | ${summary.undeclaredDependencyCount} |`,
+    `| Runtime externals | ${summary.runtimeExternalCount} |`,
+    `| Tooling externals | ${summary.toolingExternalCount} |`,
+    `| Type-only externals | ${summary.typeExternalCount} |`,
+    `| Packages with issues | ${summary.packagesWithIssues} |`,
+    "",
+    "## Cycles",
+    "",
+  ];
+
+  if (insights.cycles.edges.length === 0) {
+    lines.push("_No dependency cycles._");
+  } else {
+    lines.push(
+      ...details(
+        `${plural(insights.cycles.edgeCount, "cyclic pair")} across ${plural(
+          insights.cycles.packageCount,
+          "package",
+        )}`,
+        renderCycleTable(insights.cycles.edges),
+      ),
+    );
+  }
+
+  lines.push("", "## Version drift", "");
+  if (insights.versionDrift.dependencies.length === 0) {
+    lines.push("_No version drift._");
+  } else {
+    lines.push(
+      ...details(
+        `${plural(
+          insights.versionDrift.dependencyCount,
+          "external dependency",
+          "external dependencies",
+        )} with different ranges, ${insights.versionDrift.incompatibleCount} incompatible`,
+        renderVersionDriftTable(insights.versionDrift.dependencies),
+      ),
+    );
+  }
+  if (insights.lockfile.duplicates.length > 0) {
+    lines.push(
+      "",
+      ...details(
+        `${plural(
+          insights.lockfile.duplicateCount,
+          "external dependency",
+          "external dependencies",
+        )} installed at multiple versions`,
+        [
+          "| Dependency | Versions | Packages |",
+          "| --- | --- | --- |",
+          ...insights.lockfile.duplicates.map(
+            (duplicate) =>
+              `| ${code(duplicate.name)} | ${codeList(duplicate.versions)} | ${codeList(
+                duplicate.packages.map((pkg) => pkg.name),
+              )} |`,
+          ),
+        ],
+      ),
+    );
+  }
+
+  const strays = insights.strayPackages.packages;
+  if (strays.length > 0) {
+    lines.push(
+      "",
+      "## Stray packages",
+      "",
+      ...details(
+        `${plural(strays.length, "package.json", "package.json files")} outside the workspace globs`,
+        strays.map((stray) =>
+          stray.name
+            ? `- ${code(stray.name)} (${code(stray.relativeDir)})`
+            : `- ${code(stray.relativeDir)}`,
+        ),
+      ),
+    );
+  }
+
+  lines.push("", "## Packages with issues", "");
+  const flagged = payload.packages
+    .map((pkg) => ({ pkg, issues: packageIssues(pkg) }))
+    .filter(({ issues }) => issues.length > 0);
+
+  if (flagged.length === 0) {
+    lines.push("_No package issues._");
+  } else {
+    flagged.forEach(({ pkg, issues }, index) => {
+      if (index > 0) lines.push("");
+      const location =
+        pkg.relativeDir && pkg.relativeDir !== "."
+          ? ` (${escapeHtml(pkg.relativeDir)})`
+          : "";
+      lines.push(
+        ...details(
+          `<code>${escapeHtml(pkg.displayName)}</code>${location} – ${
+            SEVERITY_LABELS[pkg.severityLevel]
+          }`,
+          issues,
+        ),
+      );
+    });
+  }
+
+  return `${lines.join("\n")}\n`;
+}
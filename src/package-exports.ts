@@ -0,0 +1,85 @@
+// Subpath resolution following Node's `exports` rules, reduced to the
+// question of whether a subpath is public: exact keys, `*` patterns (longest
+// prefix wins), legacy folder mappings ending in "/", and `null` targets
+// that hide a subpath again.
+
+type ExportsTarget =
+  | string
+  | null
+  | ExportsTarget[]
+  | { [key: string]: ExportsTarget };
+
+// Anything but an object with "."-prefixed keys is sugar for `{ ".": value }`.
+function subpathMap(exportsField: unknown): Record<string, ExportsTarget> {
+  if (
+    exportsField &&
+    typeof exportsField === "object" &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some((key) => key.startsWith("."))
+  ) {
+    return exportsField as Record<string, ExportsTarget>;
+  }
+  return { ".": exportsField as ExportsTarget };
+}
+
+// A conditional target is reachable when at least one branch is.
+function hasTarget(target: ExportsTarget | undefined): boolean {
+  if (target === null || target === undefined) return false;
+  if (typeof target === "string") return true;
+  if (Array.isArray(target)) return target.some(hasTarget);
+  return Object.values(target).some(hasTarget);
+}
+
+function matchSubpath(
+  map: Record<string, ExportsTarget>,
+  subpath: string,
+): ExportsTarget | undefined {
+  if (Object.prototype.hasOwnProperty.call(map, subpath)) return map[subpath];
+  let bestKey: string | null = null;
+  let bestPrefix = -1;
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf("*");
+    let prefixLength: number;
+    if (star !== -1) {
+      const prefix = key.slice(0, star);
+      const suffix = key.slice(star + 1);
+      if (
+        subpath.length < key.length ||
+        !subpath.startsWith(prefix) ||
+        !subpath.endsWith(suffix)
+      ) {
+        continue;
+      }
+      prefixLength = prefix.length;
+    } else if (key.endsWith("/") && subpath.startsWith(key)) {
+      prefixLength = key.length;
+    } else {
+      continue;
+    }
+    if (prefixLength > bestPrefix) {
+      bestKey = key;
+      bestPrefix = prefixLength;
+    }
+  }
+  return bestKey === null ? undefined : map[bestKey];
+}
+
+/**
+ * Whether `subpath` ("." or "./button") is exported by a package whose
+ * `package.json` has the given `exports` field. Null when the field is
+ * missing, since every file is importable then.
+ */
+export function isExportedSubpath(
+  exportsField: unknown,
+  subpath: string,
+): boolean | null {
+  if (exportsField === undefined) return null;
+  return hasTarget(matchSubpath(subpathMap(exportsField), subpath));
+}
+
+/** Subpath of `specifier` inside `packageName`, e.g. "./src/button". */
+export function importSubpath(specifier: string, packageName: string): string {
+  return specifier === packageName
+    ? "."
+    : `.${specifier.slice(packageName.length)}`;
+}
@@ -0,0 +1,157 @@
+import path from "path";
+import { renderBuildOrder } from "./build-order.js";
+import {
+  renderCytoscapeJson,
+  renderDotGraph,
+  renderGraphml,
+  renderMermaidGraph,
+  type GraphExportOptions,
+} from "./graph-export.js";
+import { renderMarkdownReport } from "./markdown.js";
+import { renderSarifReport } from "./sarif.js";
+import type { DependencyReport } from "./types.js";
+import { buildClientViewModel, renderHtmlReport } from "./utils.js";
+
+export type JsonPayloadFormat = "raw" | "client";
+
+export interface ReporterOptions extends GraphExportOptions {
+  format?: JsonPayloadFormat;
+}
+
+export interface Reporter {
+  description: string;
+  /** Output file extensions that select this reporter when none is given. */
+  extensions?: string[];
+  render: (
+    report: DependencyReport,
+    projectRoot: string,
+    options: ReporterOptions,
+  ) => Promise<string> | string;
+}
+
+export const JSON_PAYLOAD_FORMATS: JsonPayloadFormat[] = ["raw", "client"];
+
+function renderJsonReport(
+  report: DependencyReport,
+  _projectRoot: string,
+  { format = "raw" }: ReporterOptions,
+): string {
+  const payload =
+    format === "client" ? buildClientViewModel(report).payload : report;
+  return `${JSON.stringify(payload, null, 2)}\n`;
+}
+
+const CSV_COLUMNS = [
+  "package",
+  "dependency",
+  "declaredInDependencies",
+  "declaredInDevDependencies",
+  "declaredInPeerDependencies",
+  "declaredInOptionalDependencies",
+  "usageCount",
+  "isToolingOnly",
+  "isLikelyTypePackage",
+  "versionRange",
+];
+
+function csvField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per package/external dependency pair, sorted for stable diffs.
+function renderCsvReport(report: DependencyReport): string {
+  const rows = report.packages
+    .flatMap((pkg) =>
+      pkg.externalDependencies.map((dep) => [
+        pkg.name,
+        dep.name,
+        dep.declaredInDependencies,
+        dep.declaredInDevDependencies,
+        dep.declaredInPeerDependencies,
+        dep.declaredInOptionalDependencies,
+        dep.usageCount,
+        dep.isToolingOnly,
+        dep.isLikelyTypePackage,
+        pkg.declaredVersionRanges[dep.name] ?? "",
+      ]),
+    )
+    .sort(
+      (a, b) =>
+        String(a[0]).localeCompare(String(b[0])) ||
+        String(a[1]).localeCompare(String(b[1])),
+    );
+  return `${[CSV_COLUMNS, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n")}\n`;
+}
+
+// Registry of every output format the CLI can export without the live server.
+export const REPORTERS: Record<string, Reporter> = {
+  html: {
+    description: "Self-contained dashboard (same UI as the live server)",
+    extensions: [".html", ".htm"],
+    render: (report, projectRoot) =>
+      renderHtmlReport(report, projectRoot, { liveMode: false }),
+  },
+  json: {
+    description: "Machine-readable payload (--format raw|client)",
+    extensions: [".json"],
+    render: renderJsonReport,
+  },
+  markdown: {
+    description: "Summary with collapsible sections for PRs and RFCs",
+    extensions: [".md", ".markdown"],
+    render: renderMarkdownReport,
+  },
+  sarif: {
+    description: "SARIF 2.1.0 log for code-scanning annotations",
+    extensions: [".sarif"],
+    render: renderSarifReport,
+  },
+  dot: {
+    description: "Graphviz digraph of workspace packages (--cluster)",
+    extensions: [".dot", ".gv"],
+    render: (report, _projectRoot, options) => renderDotGraph(report, options),
+  },
+  mermaid: {
+    description: "Mermaid flowchart of workspace packages",
+    extensions: [".mmd", ".mermaid"],
+    render: (report, _projectRoot, options) =>
+      renderMermaidGraph(report, options),
+  },
+  csv: {
+    description:
+      "External dependency inventory, one row per package and dependency",
+    extensions: [".csv"],
+    render: renderCsvReport,
+  },
+  graphml: {
+    description: "GraphML with package and edge attributes (Gephi, yEd)",
+    extensions: [".graphml"],
+    render: (report, _projectRoot, options) => renderGraphml(report, options),
+  },
+  cytoscape: {
+    description: "Cytoscape.js elements JSON",
+    render: (report, _projectRoot, options) =>
+      renderCytoscapeJson(report, options),
+  },
+  "build-order": {
+    description: "Topological build levels and the cycles that break them",
+    render: (report) => renderBuildOrder(report),
+  },
+};
+
+export function isKnownReporter(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(REPORTERS, name);
+}
+
+/** Reporter whose extensions include the one of `outputFile`, if any. */
+export function reporterForOutputFile(outputFile: string): string | null {
+  const extension = path.extname(outputFile).toLowerCase();
+  if (!extension) return null;
+  const match = Object.entries(REPORTERS).find(([, reporter]) =>
+    reporter.extensions?.includes(extension),
+  );
+  return match ? match[0] : null;
+}
@@ -0,0 +1,267 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import * as fsPromises from "node:fs/promises";
+import { toRootRelative } from "./check.js";
+import type {
+  DependencyReport,
+  ImportReference,
+  PackageDependencyDetail,
+  ReportPackage,
+} from "./types.js";
+
+type SarifLevel = "error" | "warning" | "note";
+
+type SarifRuleKey =
+  | "undeclaredDependency"
+  | "undeclaredExternalDependency"
+  | "cyclicDependency"
+  | "unusedExternalDependency";
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number; startColumn?: number; endColumn?: number };
+  };
+}
+
+interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  properties: { packageName: string; dependency: string };
+}
+
+const SRCROOT = "%SRCROOT%";
+
+export const SARIF_RULES: Record<SarifRuleKey, SarifRule> = {
+  undeclaredDependency: {
+    id: "RTF001",
+    name: "UndeclaredWorkspaceDependency",
+    shortDescription: {
+      text: "Workspace package imported without being declared",
+    },
+    fullDescription: {
+      text: "The importing package uses a workspace package that is missing from its package.json dependencies.",
+    },
+    defaultConfiguration: { level: "error" },
+  },
+  undeclaredExternalDependency: {
+    id: "RTF002",
+    name: "UndeclaredExternalDependency",
+    shortDescription: {
+      text: "External package imported without being declared",
+    },
+    fullDescription: {
+      text: "The importing package relies on an external package that is not listed in its package.json and only resolves through hoisting.",
+    },
+    defaultConfiguration: { level: "error" },
+  },
+  cyclicDependency: {
+    id: "RTF003",
+    name: "CyclicWorkspaceDependency",
+    shortDescription: {
+      text: "Import takes part in a workspace dependency cycle",
+    },
+    fullDescription: {
+      text: "The import creates an edge between workspace packages that belongs to a dependency cycle.",
+    },
+    defaultConfiguration: { level: "warning" },
+  },
+  unusedExternalDependency: {
+    id: "RTF004",
+    name: "UnusedExternalDependency",
+    shortDescription: { text: "Declared external package is never imported" },
+    fullDescription: {
+      text: "The package.json declares an external dependency that no source file imports.",
+    },
+    defaultConfiguration: { level: "warning" },
+  },
+};
+
+function importLocations(
+  pkg: ReportPackage,
+  detail: PackageDependencyDetail | undefined,
+): SarifLocation[] {
+  if (!detail) return [];
+  if (detail.references.length === 0) {
+    return detail.files.map((file) => ({
+      physicalLocation: {
+        artifactLocation: {
+          uri: toRootRelative(pkg, file),
+          uriBaseId: SRCROOT,
+        },
+      },
+    }));
+  }
+  return detail.references.map((reference: ImportReference) => ({
+    physicalLocation: {
+      artifactLocation: {
+        uri: toRootRelative(pkg, reference.file),
+        uriBaseId: SRCROOT,
+      },
+      region: {
+        startLine: reference.line,
+        startColumn: reference.column,
+        // The recorded position is the opening quote of the specifier.
+        endColumn: reference.column + reference.specifier.length + 2,
+      },
+    },
+  }));
+}
+
+async function readPackageJsonLines(
+  projectRoot: string,
+  pkg: ReportPackage,
+): Promise<string[]> {
+  try {
+    const content = await fsPromises.readFile(
+      path.join(projectRoot, pkg.relativeDir, "package.json"),
+      "utf8",
+    );
+    return content.split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
+
+function findDeclarationLine(
+  lines: string[],
+  dependency: string,
+): number | null {
+  const needle = `"${dependency}"`;
+  const index = lines.findIndex((line) => {
+    const position = line.indexOf(needle);
+    return (
+      position !== -1 && /^\s*:/.test(line.slice(position + needle.length))
+    );
+  });
+  return index === -1 ? null : index + 1;
+}
+
+function result(
+  rule: SarifRule,
+  pkg: ReportPackage,
+  dependency: string,
+  text: string,
+  locations: SarifLocation[],
+): SarifResult {
+  return {
+    ruleId: rule.id,
+    level: rule.defaultConfiguration.level,
+    message: { text },
+    locations,
+    properties: { packageName: pkg.name, dependency },
+  };
+}
+
+/**
+ * SARIF 2.1.0 log for code-scanning uploads. Import findings point at the
+ * exact module specifier; unused externals point at their package.json entry.
+ */
+export async function renderSarifReport(
+  report: DependencyReport,
+  projectRoot: string,
+): Promise<string> {
+  const root = path.resolve(projectRoot);
+  const results: SarifResult[] = [];
+
+  for (const pkg of report.packages) {
+    const detailFor = (dep: string) =>
+      pkg.dependencyDetails.find((entry) => entry.name === dep);
+    const externalDetailFor = (dep: string) =>
+      pkg.externalDependencyDetails.find((entry) => entry.name === dep);
+
+    for (const dep of pkg.undeclaredDeps) {
+      results.push(
+        result(
+          SARIF_RULES.undeclaredDependency,
+          pkg,
+          dep,
+          `${pkg.name} imports ${dep} but does not declare it in package.json.`,
+          importLocations(pkg, detailFor(dep)),
+        ),
+      );
+    }
+
+    for (const dep of pkg.undeclaredExternalDeps) {
+      results.push(
+        result(
+          SARIF_RULES.undeclaredExternalDependency,
+          pkg,
+          dep,
+          `${pkg.name} imports the external package ${dep} but does not declare it in package.json.`,
+          importLocations(pkg, externalDetailFor(dep)),
+        ),
+      );
+    }
+
+    for (const dep of pkg.cyclicDeps) {
+      results.push(
+        result(
+          SARIF_RULES.cyclicDependency,
+          pkg,
+          dep,
+          `Importing ${dep} from ${pkg.name} is part of a dependency cycle.`,
+          importLocations(pkg, detailFor(dep)),
+        ),
+      );
+    }
+
+    if (pkg.unusedExternalDeps.length > 0) {
+      const lines = await readPackageJsonLines(root, pkg);
+      for (const dep of pkg.unusedExternalDeps) {
+        const line = findDeclarationLine(lines, dep);
+        results.push(
+          result(
+            SARIF_RULES.unusedExternalDependency,
+            pkg,
+            dep,
+            `${pkg.name} declares ${dep} but never imports it.`,
+            [
+              {
+                physicalLocation: {
+                  artifactLocation: {
+                    uri: toRootRelative(pkg, "package.json"),
+                    uriBaseId: SRCROOT,
+                  },
+                  ...(line ? { region: { startLine: line } } : {}),
+                },
+              },
+            ],
+          ),
+        );
+      }
+    }
+  }
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "Retracify",
+            informationUri: "https://github.com/volnei/retracify",
+            rules: Object.values(SARIF_RULES),
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT]: { uri: `${pathToFileURL(root).href}/` },
+        },
+        results,
+      },
+    ],
+  };
+
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
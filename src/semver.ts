@@ -0,0 +1,217 @@
+// Just enough of node-semver to check declared ranges against workspace
+// versions: x-ranges, caret, tilde, hyphen ranges, comparators and `||`.
+// Prerelease versions are compared by precedence only.
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+type Comparator = [Operator, SemVer];
+
+const VERSION_PATTERN =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseVersion(value: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(value.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function compareVersions(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) return -1;
+    if (b.prerelease[i] === undefined) return 1;
+    const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+const version = (
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: string[] = [],
+): SemVer => ({ major, minor, patch, prerelease });
+
+// Lowest version that is no longer part of the partial, e.g. 1.2 -> 1.3.0-0.
+function nextAfter(major: number, minor: number | null): SemVer {
+  return minor === null
+    ? version(major + 1, 0, 0, ["0"])
+    : version(major, minor + 1, 0, ["0"]);
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const [, rawOperator, rest] = /^(\^|~>?|[<>]=?|=)?\s*(.*)$/.exec(token)!;
+  const match = PARTIAL_PATTERN.exec(rest);
+  if (!match) return null;
+  const part = (value: string | undefined) =>
+    value === undefined || /^[xX*]$/.test(value) ? null : Number(value);
+  const major = part(match[1]);
+  const minor = major === null ? null : part(match[2]);
+  const patch = minor === null ? null : part(match[3]);
+  const prerelease = patch !== null && match[4] ? match[4].split(".") : [];
+  const operator = rawOperator ?? "";
+
+  if (major === null) {
+    return operator === "<" || operator === ">"
+      ? [["<", version(0, 0, 0, ["0"])]]
+      : [];
+  }
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (operator) {
+    case "^": {
+      const upper =
+        major > 0 || minor === null
+          ? version(major + 1, 0, 0, ["0"])
+          : minor > 0 || patch === null
+            ? version(0, minor + 1, 0, ["0"])
+            : version(0, 0, patch + 1, ["0"]);
+      return [
+        [">=", lower],
+        ["<", upper],
+      ];
+    }
+    case "~":
+    case "~>":
+      return [
+        [">=", lower],
+        ["<", nextAfter(major, minor)],
+      ];
+    case ">":
+      return patch === null
+        ? [[">=", nextAfter(major, minor)]]
+        : [[">", lower]];
+    case "<=":
+      return patch === null
+        ? [["<", nextAfter(major, minor)]]
+        : [["<=", lower]];
+    case "<":
+    case ">=":
+      return [[operator, lower]];
+    default:
+      return patch === null
+        ? [
+            [">=", lower],
+            ["<", nextAfter(major, minor)],
+          ]
+        : [["=", lower]];
+  }
+}
+
+function parseComparatorSet(set: string): Comparator[] | null {
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(set);
+  if (hyphen) {
+    const from = parseComparator(`>=${hyphen[1]}`);
+    const to = parseComparator(`<=${hyphen[2]}`);
+    return from && to ? [...from, ...to] : null;
+  }
+  const comparators: Comparator[] = [];
+  // Operators may be separated from their version: ">= 1.2.0".
+  const tokens = set
+    .replace(/([<>=~^]+)\s+/g, "$1")
+    .split(/\s+/)
+    .filter(Boolean);
+  for (const token of tokens) {
+    const parsed = parseComparator(token);
+    if (!parsed) return null;
+    comparators.push(...parsed);
+  }
+  return comparators;
+}
+
+function testComparator([operator, bound]: Comparator, value: SemVer): boolean {
+  const result = compareVersions(value, bound);
+  switch (operator) {
+    case "<":
+      return result < 0;
+    case "<=":
+      return result <= 0;
+    case ">":
+      return result > 0;
+    case ">=":
+      return result >= 0;
+    default:
+      return result === 0;
+  }
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets = range
+    .trim()
+    .split("||")
+    .map((set) => parseComparatorSet(set.trim()));
+  return sets.some((set) => set === null) ? null : (sets as Comparator[][]);
+}
+
+function satisfiesSets(value: SemVer, sets: Comparator[][]): boolean {
+  return sets.some((set) =>
+    set.every((comparator) => testComparator(comparator, value)),
+  );
+}
+
+/**
+ * Whether `value` satisfies `range`; null when either cannot be parsed, e.g.
+ * dist-tags, git URLs or `npm:` aliases.
+ */
+export function satisfiesRange(value: string, range: string): boolean | null {
+  const parsedVersion = parseVersion(value);
+  const sets = parseRange(range);
+  if (!parsedVersion || !sets) return null;
+  return satisfiesSets(parsedVersion, sets);
+}
+
+/** True when `range` is something satisfiesRange understands. */
+export function isSemverRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Whether a single version can satisfy every range; null when one of them
+ * cannot be parsed. A non-empty intersection of intervals always contains its
+ * greatest lower bound, so only the lower bounds need to be tried.
+ */
+export function rangesIntersect(ranges: string[]): boolean | null {
+  const parsed = ranges.map(parseRange);
+  if (parsed.some((sets) => sets === null)) return null;
+  const candidates: SemVer[] = [version(0, 0, 0)];
+  for (const sets of parsed as Comparator[][][]) {
+    for (const [operator, bound] of sets.flat()) {
+      if (operator === ">=" || operator === "=") candidates.push(bound);
+      if (operator === ">") {
+        candidates.push(version(bound.major, bound.minor, bound.patch + 1));
+      }
+    }
+  }
+  return candidates.some((candidate) =>
+    (parsed as Comparator[][][]).every((sets) =>
+      satisfiesSets(candidate, sets),
+    ),
+  );
+}
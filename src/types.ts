@@ -6,21 +6,101 @@ export interface PkgInfo {
   declaredDeps?: string[];
   declaredProdDeps?: string[];
   declaredDevDeps?: string[];
+  declaredPeerDeps?: string[];
+  declaredOptionalDeps?: string[];
+  /** Peer dependencies marked optional in `peerDependenciesMeta`. */
+  optionalPeerDeps?: string[];
+  /**
+   * Version ranges from dependencies, devDependencies and optionalDependencies,
+   * keyed by package name.
+   */
+  declaredVersionRanges?: Record<string, string>;
+  /** The `exports` field of package.json, as written. */
+  exports?: unknown;
   hasTsconfig?: boolean;
   hasTailwindConfig?: boolean;
   hasAutoprefixer?: boolean;
   hasEslintConfig?: boolean;
   hasChildPackages?: boolean;
   toolingDeps?: string[];
+  /** Tags from the `retracify.tags` field of package.json. */
+  tags?: string[];
   fileCount: number;
 }
 
+/** A package.json outside the declared workspace globs. */
+export interface StrayPackage {
+  name?: string;
+  /** Directory relative to the root, POSIX separators. */
+  relativeDir: string;
+}
+
 export type EdgeMap = Map<string, Set<string>>;
 
+export interface ImportReference {
+  /** File containing the import, relative to the package directory. */
+  file: string;
+  /** 1-based position of the module specifier. */
+  line: number;
+  column: number;
+  specifier: string;
+  isTypeOnly: boolean;
+  /** "alias" when a tsconfig path mapping resolved the specifier. */
+  resolvedVia: "package" | "alias";
+}
+
 export interface PackageDependencyDetail {
   name: string;
   files: string[];
   fileCount: number;
+  references: ImportReference[];
+}
+
+export interface BoundaryRule {
+  /** Tag of the importing package; "*" applies the rule to every package. */
+  from: string;
+  /** Tags the package may depend on; any other dependency is a violation. */
+  allow?: string[];
+  /** Tags the package must not depend on. */
+  deny?: string[];
+}
+
+export interface BoundaryConfig {
+  /** Tags per glob, matched against package directories and names. */
+  tags?: Record<string, string[]>;
+  rules?: BoundaryRule[];
+}
+
+export interface BoundaryViolation {
+  /** Workspace package imported against the rules. */
+  target: string;
+  /** `from` tag of the rule that was broken. */
+  rule: string;
+  message: string;
+  /** Files of the importing package that import `target`. */
+  files: string[];
+}
+
+export interface DeepImportViolation {
+  /** Workspace package imported past its `exports` map. */
+  target: string;
+  /** Subpath requested from the target, e.g. "./src/internal/button". */
+  subpath: string;
+  /** Files of the importing package that use the subpath. */
+  files: string[];
+}
+
+export interface WorkspaceRangeIssue {
+  /** Dependency name as declared in package.json. */
+  dependency: string;
+  range: string;
+  /**
+   * unsatisfiedRange: the range rejects the workspace package's version;
+   * mixedProtocol: the range style differs from the rest of the workspace;
+   * unknownPath: a file:/link: reference outside the workspace packages.
+   */
+  kind: "unsatisfiedRange" | "mixedProtocol" | "unknownPath";
+  message: string;
 }
 
 export interface PackageExternalDependency {
@@ -30,8 +110,16 @@ export interface PackageExternalDependency {
   usageCount: number;
   declaredInDependencies: boolean;
   declaredInDevDependencies: boolean;
+  declaredInPeerDependencies: boolean;
+  declaredInOptionalDependencies: boolean;
+  /** Peer dependency marked optional in `peerDependenciesMeta`. */
+  isOptionalPeer: boolean;
   isLikelyTypePackage: boolean;
   isToolingOnly: boolean;
+  /** Versions the lockfile resolves for this package; absent without a lockfile. */
+  resolvedVersions?: string[];
+  /** Every version of the dependency the lockfile installs. */
+  installedVersions?: string[];
 }
 
 export interface ReportPackage {
@@ -49,18 +137,36 @@ export interface ReportPackage {
   dependencies: string[];
   declaredDeps: string[];
   undeclaredDeps: string[];
+  /** Declared version range per dependency name, as written in package.json. */
+  declaredVersionRanges: Record<string, string>;
   references: number;
   cyclicDeps: string[];
   dependencyDetails: PackageDependencyDetail[];
+  /**
+   * Workspace packages imported with type-only imports, which create no
+   * dependency edge; kept as evidence for `retracify why`.
+   */
+  typeOnlyDependencyDetails?: PackageDependencyDetail[];
   externalDependencies: PackageExternalDependency[];
+  /** Files and import sites for every external package that is imported. */
+  externalDependencyDetails: PackageDependencyDetail[];
   undeclaredExternalDeps: string[];
   unusedExternalDeps: string[];
+  /** Peer dependencies not also declared for local development. */
+  unmirroredPeerDeps: string[];
   toolingDeps: string[];
+  tags: string[];
+  boundaryViolations: BoundaryViolation[];
+  /** Imports of workspace subpaths the target does not export. */
+  deepImportViolations: DeepImportViolation[];
+  workspaceRangeIssues: WorkspaceRangeIssue[];
 }
 
 export interface DependencyReport {
   rootDir: string;
   packages: ReportPackage[];
+  /** Packages skipped because they are outside the workspace globs. */
+  strayPackages?: StrayPackage[];
 }
 
 export interface GenerateReportSnapshotEvent {
@@ -72,5 +178,18 @@ export interface GenerateReportSnapshotEvent {
 export interface GenerateReportOptions {
   rootDir?: string;
   exclude?: string[];
+  /** Absolute globs; when set, only matching packages and files are analysed. */
+  include?: string[];
+  /** Extra package-name patterns treated as tooling-only when declared. */
+  toolingPatterns?: RegExp[];
+  /** Package tags and the allow/deny rules checked between them. */
+  boundaries?: BoundaryConfig;
+  /** Treat every package.json as a package, ignoring workspace globs. */
+  allPackages?: boolean;
   onSnapshot?: (event: GenerateReportSnapshotEvent) => void;
 }
+
+export type ReportScanOptions = Pick<
+  GenerateReportOptions,
+  "exclude" | "include" | "toolingPatterns" | "boundaries" | "allPackages"
+>;
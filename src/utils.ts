@@ -5,7 +5,15 @@ import os from "os";
 import ejs from "ejs";
 import { fileURLToPath } from "url";
 import { createRequire } from "module";
-import type { PkgInfo } from "./types.js";
+import type {
+  BoundaryViolation,
+  DeepImportViolation,
+  PkgInfo,
+  StrayPackage,
+  WorkspaceRangeIssue,
+} from "./types.js";
+import { findLockfileIssues, type StaleLockfileRange } from "./lockfile.js";
+import { findVersionDrift, type VersionDrift } from "./version-drift.js";
 
 const requireForResolve = createRequire(import.meta.url);
 
@@ -185,24 +193,148 @@ const CONFIG_DETECTIONS: ConfigPatternDescriptor[] = [
   },
 ];
 
+// `packages:` list of pnpm-workspace.yaml, block or flow style.
+function parsePnpmWorkspaceGlobs(content: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+    if (!/^\s/.test(line)) {
+      const [, key, value = ""] = /^([^:]+):\s*(.*)$/.exec(line) ?? [];
+      inPackages = key === "packages";
+      if (inPackages && value.startsWith("[")) {
+        globs.push(...value.replace(/^\[|\]$/g, "").split(","));
+        inPackages = false;
+      }
+      continue;
+    }
+    const item = /^\s+-\s*(.+)$/.exec(line);
+    if (inPackages && item) globs.push(item[1]);
+  }
+  return globs
+    .map((value) => value.trim().replace(/^(['"])(.*)\1$/, "$2"))
+    .filter(Boolean);
+}
+
 /**
- * Walk the workspace and discover every package.json, excluding nested package
- * directories when counting source files so parents do not inherit child stats.
+ * Workspace globs declared by the package manager: pnpm-workspace.yaml first,
+ * then the `workspaces` field of the root package.json (npm, Yarn and Bun,
+ * including the `{ packages: [...] }` form). Null when none are declared.
  */
-export async function discoverPackages(
+export async function readWorkspaceGlobs(
+  rootDir: string,
+): Promise<string[] | null> {
+  const rootDirResolved = path.resolve(rootDir);
+  try {
+    const content = await fs.readFile(
+      path.join(rootDirResolved, "pnpm-workspace.yaml"),
+      "utf8",
+    );
+    const globs = parsePnpmWorkspaceGlobs(content);
+    if (globs.length > 0) return globs;
+  } catch {
+    // No pnpm workspace file
+  }
+
+  let pkg: { workspaces?: unknown } | null = null;
+  try {
+    pkg = JSON.parse(
+      await fs.readFile(path.join(rootDirResolved, "package.json"), "utf8"),
+    );
+  } catch {
+    return null;
+  }
+  const workspaces = Array.isArray(pkg?.workspaces)
+    ? pkg.workspaces
+    : (pkg?.workspaces as { packages?: unknown } | undefined)?.packages;
+  if (!Array.isArray(workspaces)) return null;
+  const globs = workspaces.filter(
+    (value): value is string => typeof value === "string" && value.trim() !== "",
+  );
+  return globs.length > 0 ? globs : null;
+}
+
+// Whether a root-relative directory is matched by the workspace globs; "!"
+// globs exclude directories again, as in pnpm and npm.
+function matchesWorkspaceGlobs(relativeDir: string, globs: string[]): boolean {
+  const normalize = (value: string) =>
+    value.trim().replace(/^\.\//, "").replace(/\/+$/, "");
+  const included = globs.filter((value) => !value.startsWith("!"));
+  const excluded = globs
+    .filter((value) => value.startsWith("!"))
+    .map((value) => value.slice(1));
+  return (
+    included.some((value) => globToRegExp(normalize(value)).test(relativeDir)) &&
+    !excluded.some((value) => globToRegExp(normalize(value)).test(relativeDir))
+  );
+}
+
+export interface DiscoveredWorkspace {
+  packages: PkgInfo[];
+  /** package.json files outside the declared workspace globs. */
+  strayPackages: StrayPackage[];
+}
+
+/**
+ * Walk the workspace and discover its packages. When the package manager
+ * declares workspace globs only matching directories (and the root) become
+ * packages; the others are returned as stray packages. Nested package
+ * directories are excluded when counting source files so parents do not
+ * inherit child stats.
+ */
+export async function discoverWorkspace(
   rootDir: string,
   exclude: string[] = ["**/node_modules/**", "**/build/**", "**/dist/**"],
   onProgress?: (msg: string, progress?: number) => void,
-): Promise<PkgInfo[]> {
+  include: string[] = [],
+  allPackages = false,
+): Promise<DiscoveredWorkspace> {
   const rootDirResolved = path.resolve(rootDir);
   onProgress?.("Searching for package.json files...");
-  const files = await glob(`${rootDirResolved}/**/package.json`, {
-    ignore: exclude,
-    onlyFiles: true,
-  });
-  onProgress?.(`Found ${files.length} package.json files`);
+  const allFiles = filterIncluded(
+    await glob(`${rootDirResolved}/**/package.json`, {
+      ignore: exclude,
+      onlyFiles: true,
+    }),
+    include,
+  );
+  onProgress?.(`Found ${allFiles.length} package.json files`);
+
+  const workspaceGlobs = allPackages
+    ? null
+    : await readWorkspaceGlobs(rootDirResolved);
+  const files: string[] = [];
+  const strayPackages: StrayPackage[] = [];
+  for (const filePath of allFiles) {
+    const relativeDir = path
+      .relative(rootDirResolved, path.dirname(filePath))
+      .split(path.sep)
+      .join("/");
+    if (
+      !workspaceGlobs ||
+      relativeDir === "" ||
+      matchesWorkspaceGlobs(relativeDir, workspaceGlobs)
+    ) {
+      files.push(filePath);
+      continue;
+    }
+    let name: unknown;
+    try {
+      name = JSON.parse(await fs.readFile(filePath, "utf8")).name;
+    } catch {
+      name = undefined;
+    }
+    strayPackages.push({
+      ...(typeof name === "string" && { name }),
+      relativeDir,
+    });
+  }
 
   const pkgs: PkgInfo[] = [];
+  // Stray directories still shield their files from the enclosing package.
+  const nestedDirs = allFiles.map((filePath) =>
+    path.resolve(path.dirname(filePath)),
+  );
   const packageDirs = files.map((filePath) =>
     path.resolve(path.dirname(filePath)),
   );
@@ -215,17 +347,41 @@ export async function discoverPackages(
     const pkg = JSON.parse(content);
     const dependencies = Object.keys(pkg.dependencies || {});
     const devDependencies = Object.keys(pkg.devDependencies || {});
+    const peerDependencies = Object.keys(pkg.peerDependencies || {});
+    const optionalDependencies = Object.keys(pkg.optionalDependencies || {});
+    const optionalPeerDeps = Object.entries(pkg.peerDependenciesMeta || {})
+      .filter(
+        ([name, meta]) =>
+          peerDependencies.includes(name) &&
+          (meta as { optional?: unknown } | null)?.optional === true,
+      )
+      .map(([name]) => name);
     const declaredDeps = Array.from(
-      new Set([...dependencies, ...devDependencies]),
+      new Set([
+        ...dependencies,
+        ...devDependencies,
+        ...optionalDependencies,
+        ...peerDependencies,
+      ]),
     );
+    // Peer ranges describe what consumers may install, not what is installed.
+    const declaredVersionRanges: Record<string, string> = {};
+    for (const section of [
+      pkg.devDependencies,
+      pkg.optionalDependencies,
+      pkg.dependencies,
+    ]) {
+      for (const [name, range] of Object.entries(section || {})) {
+        if (typeof range === "string") declaredVersionRanges[name] = range;
+      }
+    }
 
-    const childPackageDirs = packageDirs.filter(
-      (dir) =>
-        dir !== pkgDirResolved &&
-        dir.startsWith(pkgDirResolved.endsWith(path.sep)
-          ? pkgDirResolved
-          : `${pkgDirResolved}${path.sep}`),
-    );
+    const isNested = (dir: string) =>
+      dir !== pkgDirResolved &&
+      dir.startsWith(pkgDirResolved.endsWith(path.sep)
+        ? pkgDirResolved
+        : `${pkgDirResolved}${path.sep}`);
+    const childPackageDirs = packageDirs.filter(isNested);
     let hasTsconfig = false;
     let hasTailwindConfig = false;
     let hasAutoprefixer = false;
@@ -237,7 +393,8 @@ export async function discoverPackages(
       hasTsconfig = false;
     }
 
-    const childIgnorePatterns = childPackageDirs
+    const childIgnorePatterns = nestedDirs
+      .filter(isNested)
       .map((childDir) => {
         const relative = path.relative(pkgDirResolved, childDir);
         if (!relative || relative.startsWith("..")) return null;
@@ -391,12 +548,20 @@ export async function discoverPackages(
       declaredDeps,
       declaredProdDeps: dependencies,
       declaredDevDeps: devDependencies,
+      declaredPeerDeps: peerDependencies,
+      declaredOptionalDeps: optionalDependencies,
+      optionalPeerDeps,
+      declaredVersionRanges,
+      ...(pkg.exports !== undefined && { exports: pkg.exports }),
       hasTsconfig,
       hasTailwindConfig,
       hasAutoprefixer,
       hasEslintConfig,
       hasChildPackages: childPackageDirs.length > 0,
       toolingDeps,
+      tags: Array.isArray(pkg.retracify?.tags)
+        ? pkg.retracify.tags.filter((tag: unknown) => typeof tag === "string")
+        : [],
       fileCount: filesInPkg.length,
     });
 
@@ -406,7 +571,25 @@ export async function discoverPackages(
     );
   }
 
-  return pkgs;
+  return { packages: pkgs, strayPackages };
+}
+
+// Workspace packages only; see discoverWorkspace for the stray packages.
+export async function discoverPackages(
+  rootDir: string,
+  exclude?: string[],
+  onProgress?: (msg: string, progress?: number) => void,
+  include: string[] = [],
+  allPackages = false,
+): Promise<PkgInfo[]> {
+  const { packages } = await discoverWorkspace(
+    rootDir,
+    exclude,
+    onProgress,
+    include,
+    allPackages,
+  );
+  return packages;
 }
 
 // Return all source files in the workspace; shared between graph building and
@@ -415,16 +598,110 @@ export async function collectSourceFiles(
   rootDir: string,
   exclude: string[] = ["**/node_modules/**", "**/build/**", "**/dist/**"],
   onProgress?: (msg: string) => void,
+  include: string[] = [],
 ): Promise<string[]> {
   const rootDirResolved = path.resolve(rootDir);
   onProgress?.("Searching for source files...");
-  const files = await glob(`${rootDirResolved}/**/*.{js,ts,jsx,tsx}`, {
-    ignore: exclude,
-  });
+  const files = filterIncluded(
+    await glob(`${rootDirResolved}/**/*.{js,ts,jsx,tsx}`, {
+      ignore: exclude,
+    }),
+    include,
+  );
   onProgress?.(`Found ${files.length} source files`);
   return files;
 }
 
+// fast-glob only applies relative ignore patterns against relative entries, so
+// anchor user supplied globs to the root unless they already float ("**/...").
+export function resolveGlobPatterns(
+  rootDir: string,
+  patterns: string[],
+): string[] {
+  const rootDirResolved = path.resolve(rootDir).split(path.sep).join("/");
+  return patterns.map((pattern) => {
+    const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+    if (normalized.startsWith("**/") || path.isAbsolute(normalized)) {
+      return normalized;
+    }
+    return `${rootDirResolved}/${normalized}`;
+  });
+}
+
+const globRegExpCache = new Map<string, RegExp>();
+
+// Translate a fast-glob style pattern (`**`, `*`, `?`, `{a,b}`) into a RegExp
+// matched against POSIX paths; used where fast-glob cannot filter for us.
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globRegExpCache.get(pattern);
+  if (cached) return cached;
+
+  const normalized = pattern.replace(/\\/g, "/");
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === "*" && normalized[i + 1] === "*") {
+      const atSegmentStart = i === 0 || normalized[i - 1] === "/";
+      if (atSegmentStart && normalized[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else if (atSegmentStart && i + 2 === normalized.length && i > 0) {
+        // Trailing "/**" also matches the directory itself.
+        source = source.slice(0, -1) + "(?:/.*)?";
+        i += 1;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth += 1;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  globRegExpCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * True when `targetPath` or one of its parent directories matches one of the
+ * (absolute) glob patterns, so "packages/ui" covers everything below it.
+ */
+export function matchesGlobPatterns(
+  targetPath: string,
+  patterns: string[],
+): boolean {
+  if (patterns.length === 0) return false;
+  const regexes = patterns.map(globToRegExp);
+  let current = path.resolve(targetPath);
+  while (true) {
+    const posix = current.split(path.sep).join("/");
+    if (regexes.some((regex) => regex.test(posix))) return true;
+    const parent = path.dirname(current);
+    if (parent === current) return false;
+    current = parent;
+  }
+}
+
+// Keep everything when no include patterns are configured.
+function filterIncluded(files: string[], include: string[]): string[] {
+  if (include.length === 0) return files;
+  return files.filter((file) => matchesGlobPatterns(file, include));
+}
+
 export function normalizeImportSpecifier(spec: string): string {
   if (spec.startsWith("@")) {
     const [scope, name] = spec.split("/");
@@ -450,6 +727,11 @@ export interface ReportClientSummary {
   toolingExternalCount: number;
   typeExternalCount: number;
   toolingDependencyCount: number;
+  boundaryViolationCount: number;
+  deepImportViolationCount: number;
+  workspaceRangeIssueCount: number;
+  staleLockfileRangeCount: number;
+  unmirroredPeerDepCount: number;
   packagesWithIssues: number;
   averageDependencyCount: number;
   averageToolingDeps: number;
@@ -473,6 +755,7 @@ export interface ReportClientPackage {
   hasEslintConfig?: boolean;
   hasChildPackages?: boolean;
   toolingDeps?: string[];
+  declaredVersionRanges?: Record<string, string>;
   dependencyDetails?: DependencyDetail[];
   externalDependencies: {
     name: string;
@@ -481,14 +764,26 @@ export interface ReportClientPackage {
     usageCount: number;
     declaredInDependencies: boolean;
     declaredInDevDependencies: boolean;
+    declaredInPeerDependencies?: boolean;
+    declaredInOptionalDependencies?: boolean;
+    isOptionalPeer?: boolean;
     isLikelyTypePackage: boolean;
     isToolingOnly: boolean;
+    resolvedVersions?: string[];
+    installedVersions?: string[];
   }[];
   undeclaredExternalDeps: string[];
   unusedExternalDeps: string[];
+  unmirroredPeerDeps: string[];
+  tags: string[];
+  boundaryViolations: BoundaryViolation[];
+  deepImportViolations: DeepImportViolation[];
+  workspaceRangeIssues: WorkspaceRangeIssue[];
+  staleLockfileRanges: StaleLockfileRange[];
   displayName: string;
   anchorId: string;
   severityLevel: "stable" | "watch" | "critical";
+  severitySignals: string[];
   hasIssues: boolean;
   dependencyBadges: {
     name: string;
@@ -512,8 +807,13 @@ export interface ReportClientPackage {
     usageCount: number;
     declaredInDependencies: boolean;
     declaredInDevDependencies: boolean;
+    declaredInPeerDependencies?: boolean;
+    declaredInOptionalDependencies?: boolean;
+    isOptionalPeer?: boolean;
     isLikelyTypePackage: boolean;
     isToolingOnly: boolean;
+    resolvedVersions?: string[];
+    installedVersions?: string[];
     isTypeOnly: boolean;
     isDevOnly: boolean;
     scopeLabel: string | null;
@@ -538,6 +838,31 @@ export interface ReportClientCycleEdge {
   severity: "low" | "medium" | "high";
 }
 
+export interface ReportClientBoundaryViolation {
+  fromName: string;
+  fromAnchor: string;
+  toName: string;
+  toAnchor: string;
+  rule: string;
+  message: string;
+  files: string[];
+}
+
+export interface ReportClientVersionDrift {
+  name: string;
+  kind: VersionDrift["kind"];
+  ranges: {
+    range: string;
+    packages: { name: string; anchor: string }[];
+  }[];
+}
+
+export interface ReportClientLockfileDuplicate {
+  name: string;
+  versions: string[];
+  packages: { name: string; anchor: string }[];
+}
+
 export interface ReportClientPayload {
   summary: ReportClientSummary;
   packages: ReportClientPackage[];
@@ -547,6 +872,25 @@ export interface ReportClientPayload {
       edgeCount: number;
       edges: ReportClientCycleEdge[];
     };
+    boundaries: {
+      packageCount: number;
+      violationCount: number;
+      violations: ReportClientBoundaryViolation[];
+    };
+    versionDrift: {
+      dependencyCount: number;
+      incompatibleCount: number;
+      dependencies: ReportClientVersionDrift[];
+    };
+    lockfile: {
+      duplicateCount: number;
+      staleRangeCount: number;
+      duplicates: ReportClientLockfileDuplicate[];
+    };
+    strayPackages: {
+      count: number;
+      packages: StrayPackage[];
+    };
   };
   meta: ReportClientMeta;
 }
@@ -578,6 +922,7 @@ export function buildClientViewModel(
       hasEslintConfig?: boolean;
       hasChildPackages?: boolean;
       toolingDeps?: string[];
+      declaredVersionRanges?: Record<string, string>;
       dependencyDetails?: DependencyDetail[];
       externalDependencies: {
         name: string;
@@ -586,13 +931,24 @@ export function buildClientViewModel(
         usageCount: number;
         declaredInDependencies: boolean;
         declaredInDevDependencies: boolean;
+        declaredInPeerDependencies?: boolean;
+        declaredInOptionalDependencies?: boolean;
+        isOptionalPeer?: boolean;
         isLikelyTypePackage: boolean;
         isToolingOnly: boolean;
+        resolvedVersions?: string[];
+        installedVersions?: string[];
       }[];
       undeclaredExternalDeps: string[];
       unusedExternalDeps: string[];
+      unmirroredPeerDeps?: string[];
+      tags?: string[];
+      boundaryViolations?: BoundaryViolation[];
+      deepImportViolations?: DeepImportViolation[];
+      workspaceRangeIssues?: WorkspaceRangeIssue[];
     }[];
     rootDir: string;
+    strayPackages?: StrayPackage[];
   },
 ): BuildClientViewModelResult {
   const now = new Date().toLocaleString();
@@ -612,8 +968,14 @@ export function buildClientViewModel(
     toolingExternalCount: 0,
     typeExternalCount: 0,
     toolingDependencyCount: 0,
+    boundaryViolationCount: 0,
+    deepImportViolationCount: 0,
+    workspaceRangeIssueCount: 0,
+    staleLockfileRangeCount: 0,
+    unmirroredPeerDepCount: 0,
     packagesWithIssues: 0,
   };
+  const lockfileIssues = findLockfileIssues(reportData.packages);
 
   const displayNameByPkg = new Map<string, string>();
   const anchorIdByPkg = new Map<string, string>();
@@ -782,10 +1144,22 @@ export function buildClientViewModel(
       : [];
     const undeclaredExternalDeps = pkg.undeclaredExternalDeps ?? [];
     const unusedExternalDeps = pkg.unusedExternalDeps ?? [];
+    const unmirroredPeerDeps = pkg.unmirroredPeerDeps ?? [];
+    const boundaryViolations = pkg.boundaryViolations ?? [];
+    const deepImportViolations = pkg.deepImportViolations ?? [];
+    const workspaceRangeIssues = pkg.workspaceRangeIssues ?? [];
+    const staleLockfileRanges = lockfileIssues.staleRanges.filter(
+      (entry) => entry.packageName === pkg.name,
+    );
     const hasIssues =
       (pkg.undeclaredDeps?.length ?? 0) > 0 ||
       undeclaredExternalDeps.length > 0 ||
-      unusedExternalDeps.length > 0;
+      unusedExternalDeps.length > 0 ||
+      unmirroredPeerDeps.length > 0 ||
+      boundaryViolations.length > 0 ||
+      deepImportViolations.length > 0 ||
+      workspaceRangeIssues.length > 0 ||
+      staleLockfileRanges.length > 0;
 
     const severitySignals: string[] = [];
     let severityScore = 0;
@@ -821,6 +1195,38 @@ export function buildClientViewModel(
       );
       severityScore += Math.min(unusedExternalDeps.length, 3);
     }
+    if (unmirroredPeerDeps.length > 0) {
+      severitySignals.push(
+        `${unmirroredPeerDeps.length} peer ${
+          unmirroredPeerDeps.length === 1 ? "dependency" : "dependencies"
+        } missing from devDependencies`,
+      );
+      severityScore += Math.min(unmirroredPeerDeps.length, 2);
+    }
+    if (deepImportViolations.length > 0) {
+      severitySignals.push(
+        `${deepImportViolations.length} ${
+          deepImportViolations.length === 1 ? "import" : "imports"
+        } past package exports`,
+      );
+      severityScore += Math.min(deepImportViolations.length, 3);
+    }
+    if (workspaceRangeIssues.length > 0) {
+      severitySignals.push(
+        `${workspaceRangeIssues.length} invalid workspace ${
+          workspaceRangeIssues.length === 1 ? "range" : "ranges"
+        }`,
+      );
+      severityScore += Math.min(workspaceRangeIssues.length * 2, 4);
+    }
+    if (staleLockfileRanges.length > 0) {
+      severitySignals.push(
+        `${staleLockfileRanges.length} stale lockfile ${
+          staleLockfileRanges.length === 1 ? "range" : "ranges"
+        }`,
+      );
+      severityScore += Math.min(staleLockfileRanges.length, 3);
+    }
     if (runtimeExternal > 12) {
       severitySignals.push("High runtime external usage");
       severityScore += 1;
@@ -851,6 +1257,11 @@ export function buildClientViewModel(
     summary.toolingExternalCount += toolingExternal;
     summary.typeExternalCount += typeExternal;
     summary.toolingDependencyCount += toolingList.length;
+    summary.boundaryViolationCount += boundaryViolations.length;
+    summary.deepImportViolationCount += deepImportViolations.length;
+    summary.workspaceRangeIssueCount += workspaceRangeIssues.length;
+    summary.staleLockfileRangeCount += staleLockfileRanges.length;
+    summary.unmirroredPeerDepCount += unmirroredPeerDeps.length;
     if (hasIssues) summary.packagesWithIssues += 1;
 
     return {
@@ -863,6 +1274,12 @@ export function buildClientViewModel(
       toolingExternalCount: toolingExternal,
       typeExternalCount: typeExternal,
       toolingDepsList: toolingList,
+      tags: pkg.tags ?? [],
+      unmirroredPeerDeps,
+      boundaryViolations,
+      deepImportViolations,
+      workspaceRangeIssues,
+      staleLockfileRanges,
       hasIssues,
       severityLevel,
       severityLabel,
@@ -894,10 +1311,17 @@ export function buildClientViewModel(
       externalDependencyBadges: pkg.externalDependencies.map((dep) => {
         const isTypeOnly = dep.isLikelyTypePackage && !dep.isUsed;
         const isToolingOnly = dep.isToolingOnly && dep.usageCount === 0;
+        // A peer mirrored in devDependencies is still a runtime dependency.
         const isDevOnlyExternal =
-          dep.declaredInDevDependencies && !dep.declaredInDependencies;
+          dep.declaredInDevDependencies &&
+          !dep.declaredInDependencies &&
+          !dep.declaredInPeerDependencies;
         let scopeLabel: string | null = null;
-        if (dep.declaredInDevDependencies) {
+        if (dep.declaredInPeerDependencies) {
+          scopeLabel = dep.isOptionalPeer ? "Optional peer" : "Peer";
+        } else if (dep.declaredInOptionalDependencies) {
+          scopeLabel = "Optional";
+        } else if (dep.declaredInDevDependencies) {
           scopeLabel = dep.declaredInDependencies ? "Prod + Dev" : "Dev only";
         }
         return {
@@ -965,6 +1389,58 @@ export function buildClientViewModel(
     edges: cycleEdgeList,
   };
 
+  const boundaryViolationList = packagesView.flatMap((pkg) =>
+    pkg.boundaryViolations.map((violation) => ({
+      fromName: pkg.displayName,
+      fromAnchor: pkg.anchorId,
+      toName: resolveDisplayName(violation.target),
+      toAnchor: resolveAnchorId(violation.target),
+      rule: violation.rule,
+      message: violation.message,
+      files: violation.files,
+    })),
+  );
+  const boundaryInsights = {
+    packageCount: new Set(boundaryViolationList.map((entry) => entry.fromName))
+      .size,
+    violationCount: boundaryViolationList.length,
+    violations: boundaryViolationList,
+  };
+
+  const versionDriftList = findVersionDrift(reportData.packages).map(
+    (drift) => ({
+      name: drift.name,
+      kind: drift.kind,
+      ranges: drift.ranges.map((entry) => ({
+        range: entry.range,
+        packages: entry.packages.map((name) => ({
+          name: resolveDisplayName(name),
+          anchor: resolveAnchorId(name),
+        })),
+      })),
+    }),
+  );
+  const versionDriftInsights = {
+    dependencyCount: versionDriftList.length,
+    incompatibleCount: versionDriftList.filter(
+      (drift) => drift.kind === "incompatible",
+    ).length,
+    dependencies: versionDriftList,
+  };
+
+  const lockfileInsights = {
+    duplicateCount: lockfileIssues.duplicates.length,
+    staleRangeCount: lockfileIssues.staleRanges.length,
+    duplicates: lockfileIssues.duplicates.map((duplicate) => ({
+      name: duplicate.name,
+      versions: duplicate.versions,
+      packages: duplicate.packages.map((name) => ({
+        name: resolveDisplayName(name),
+        anchor: resolveAnchorId(name),
+      })),
+    })),
+  };
+
   const averageDependencyCount =
     summary.packageCount > 0
       ? Number((summary.dependencyCount / summary.packageCount).toFixed(1))
@@ -1006,6 +1482,13 @@ export function buildClientViewModel(
       packages: packagesWithDependents,
       insights: {
         cycles: cycleInsights,
+        boundaries: boundaryInsights,
+        versionDrift: versionDriftInsights,
+        lockfile: lockfileInsights,
+        strayPackages: {
+          count: reportData.strayPackages?.length ?? 0,
+          packages: reportData.strayPackages ?? [],
+        },
       },
       meta: {
         rootDir: reportData.rootDir,
@@ -1040,6 +1523,7 @@ export async function renderHtmlReport(
       hasEslintConfig?: boolean;
       hasChildPackages?: boolean;
       toolingDeps?: string[];
+      declaredVersionRanges?: Record<string, string>;
       dependencyDetails?: DependencyDetail[];
       externalDependencies: {
         name: string;
@@ -1048,6 +1532,9 @@ export async function renderHtmlReport(
         usageCount: number;
         declaredInDependencies: boolean;
         declaredInDevDependencies: boolean;
+        declaredInPeerDependencies?: boolean;
+        declaredInOptionalDependencies?: boolean;
+        isOptionalPeer?: boolean;
         isLikelyTypePackage: boolean;
         isToolingOnly: boolean;
       }[];
@@ -1432,14 +1919,49 @@ async function buildAliasMapForConfig(
   return result;
 }
 
+// Directory a glob is anchored to: everything before the first segment with
+// a glob character. `**/src/**` is anchored nowhere and yields null.
+function globBaseDir(pattern: string): string | null {
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex((segment) => /[*?{}[\]!]/.test(segment));
+  const base = (
+    firstGlob === -1 ? segments : segments.slice(0, firstGlob)
+  ).join("/");
+  return base ? path.resolve(base) : null;
+}
+
+const isSameOrInside = (dir: string, parent: string) =>
+  dir === parent || dir.startsWith(ensureTrailingSlash(parent));
+
+/**
+ * Aliases of a tsconfig apply to every file below it, so with `include` a
+ * config is kept when it matches or when its directory and an include glob's
+ * base directory share a line of descent: the root tsconfig stays in scope
+ * for `packages/**`, and so do the configs inside `packages/`.
+ */
 export async function loadTsconfigAliasResolvers(
   rootDir: string,
   exclude: string[] = ["**/node_modules/**", "**/dist/**", "**/build/**"],
+  include: string[] = [],
 ): Promise<TsconfigAliasResolver[]> {
   const rootDirResolved = path.resolve(rootDir);
-  const files = await glob(`${rootDirResolved}/**/tsconfig.json`, {
-    ignore: exclude,
-    onlyFiles: true,
+  const includeBases = include.map(globBaseDir);
+  const files = (
+    await glob(`${rootDirResolved}/**/tsconfig.json`, {
+      ignore: exclude,
+      onlyFiles: true,
+    })
+  ).filter((filePath) => {
+    if (include.length === 0 || matchesGlobPatterns(filePath, include)) {
+      return true;
+    }
+    const configDir = path.dirname(path.resolve(filePath));
+    return includeBases.some(
+      (base) =>
+        base === null ||
+        isSameOrInside(base, configDir) ||
+        isSameOrInside(configDir, base),
+    );
   });
 
   const resolvers: TsconfigAliasResolver[] = [];
@@ -0,0 +1,62 @@
+import { rangesIntersect } from "./semver.js";
+
+export interface VersionDriftRange {
+  range: string;
+  /** Packages declaring the dependency with this range, sorted. */
+  packages: string[];
+}
+
+export interface VersionDrift {
+  /** External dependency declared with more than one range. */
+  name: string;
+  /** Most common range first. */
+  ranges: VersionDriftRange[];
+  /** "incompatible" when no single version satisfies every range. */
+  kind: "incompatible" | "different";
+}
+
+/**
+ * External dependencies declared with different ranges across packages.
+ * Workspace packages are skipped; their ranges are validated separately.
+ */
+export function findVersionDrift(
+  packages: { name: string; declaredVersionRanges?: Record<string, string> }[],
+): VersionDrift[] {
+  const workspaceNames = new Set(packages.map((pkg) => pkg.name));
+  const declarations = new Map<string, Map<string, string[]>>();
+  for (const pkg of packages) {
+    for (const [dep, range] of Object.entries(
+      pkg.declaredVersionRanges ?? {},
+    )) {
+      if (workspaceNames.has(dep)) continue;
+      const byRange = declarations.get(dep) ?? new Map<string, string[]>();
+      byRange.set(range, [...(byRange.get(range) ?? []), pkg.name]);
+      declarations.set(dep, byRange);
+    }
+  }
+
+  const drift: VersionDrift[] = [];
+  for (const [name, byRange] of declarations) {
+    if (byRange.size < 2) continue;
+    const ranges = Array.from(byRange, ([range, names]) => ({
+      range,
+      packages: names.sort(),
+    })).sort(
+      (a, b) =>
+        b.packages.length - a.packages.length || a.range.localeCompare(b.range),
+    );
+    drift.push({
+      name,
+      ranges,
+      kind:
+        rangesIntersect(ranges.map((entry) => entry.range)) === false
+          ? "incompatible"
+          : "different",
+    });
+  }
+  return drift.sort(
+    (a, b) =>
+      Number(b.kind === "incompatible") - Number(a.kind === "incompatible") ||
+      a.name.localeCompare(b.name),
+  );
+}
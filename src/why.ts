@@ -0,0 +1,215 @@
+import path from "path";
+import type { ChalkInstance } from "chalk";
+import { toRootRelative } from "./check.js";
+import { generateDependencyReport as defaultGenerateDependencyReport } from "./graph.js";
+import type { OraFactory } from "./live-server.js";
+import type {
+  DependencyReport,
+  ImportReference,
+  ReportPackage,
+  ReportScanOptions,
+} from "./types.js";
+
+type GenerateDependencyReport = typeof defaultGenerateDependencyReport;
+
+export interface DependencyEvidenceFile {
+  /** File of the importing package, relative to the analysed root. */
+  file: string;
+  imports: Omit<ImportReference, "file">[];
+}
+
+export interface DependencyExplanation {
+  from: string;
+  to: string;
+  kind: "workspace" | "external";
+  /** Range declared in the package.json of `from`, null when undeclared. */
+  declaredRange: string | null;
+  /** Listed in `peerDependencies` of `from`, whose ranges are not tracked. */
+  declaredAsPeer: boolean;
+  /** Empty when `from` never imports `to`. */
+  files: DependencyEvidenceFile[];
+}
+
+function findPackage(
+  report: DependencyReport,
+  query: string,
+): ReportPackage | undefined {
+  const normalized = query.replace(/\\/g, "/").replace(/\/+$/, "");
+  return (
+    report.packages.find((pkg) => pkg.name === query) ??
+    report.packages.find(
+      (pkg) => pkg.relativeDir.replace(/\\/g, "/") === normalized,
+    )
+  );
+}
+
+/**
+ * Collect the import sites behind `from -> to`. Packages may be given by name
+ * or directory; `to` falls back to an external package when no workspace
+ * package matches.
+ */
+export function explainDependency(
+  report: DependencyReport,
+  from: string,
+  to: string,
+): DependencyExplanation {
+  const pkg = findPackage(report, from);
+  if (!pkg) {
+    throw new Error(`Unknown package "${from}".`);
+  }
+  const target = findPackage(report, to);
+  const kind = target ? "workspace" : "external";
+  const targetName = target?.name ?? to;
+
+  const details = (
+    kind === "workspace"
+      ? [...pkg.dependencyDetails, ...(pkg.typeOnlyDependencyDetails ?? [])]
+      : pkg.externalDependencyDetails
+  ).filter((entry) => entry.name === targetName);
+
+  const importsByFile = new Map<string, DependencyEvidenceFile["imports"]>();
+  for (const detail of details) {
+    for (const file of detail.files) {
+      if (!importsByFile.has(file)) importsByFile.set(file, []);
+    }
+    for (const { file, ...location } of detail.references) {
+      if (!importsByFile.has(file)) importsByFile.set(file, []);
+      importsByFile.get(file)!.push(location);
+    }
+  }
+  for (const imports of importsByFile.values()) {
+    imports.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  return {
+    from: pkg.name,
+    to: targetName,
+    kind,
+    declaredRange: pkg.declaredVersionRanges[targetName] ?? null,
+    declaredAsPeer:
+      kind === "external" &&
+      pkg.externalDependencies.some(
+        (dep) => dep.name === targetName && dep.declaredInPeerDependencies,
+      ),
+    files: [...importsByFile.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, imports]) => ({
+        file: toRootRelative(pkg, file),
+        imports,
+      })),
+  };
+}
+
+export function printDependencyExplanation(
+  explanation: DependencyExplanation,
+  chalk: ChalkInstance,
+): void {
+  const { from, to, kind, declaredRange, declaredAsPeer, files } = explanation;
+  const declaration = declaredRange
+    ? `declared as ${declaredRange}${declaredAsPeer ? " and as a peer" : ""}`
+    : declaredAsPeer
+      ? "declared in peerDependencies"
+      : chalk.yellow("not declared in package.json");
+  console.log(
+    `${chalk.bold(from)} ${chalk.gray("->")} ${chalk.bold(to)} ${chalk.gray(
+      `(${kind} package,`,
+    )} ${declaration}${chalk.gray(")")}`,
+  );
+
+  if (files.length === 0) {
+    console.log();
+    console.log(chalk.yellow(`${from} does not import ${to}.`));
+    return;
+  }
+
+  let importCount = 0;
+  let typeOnlyCount = 0;
+  for (const { file, imports } of files) {
+    console.log();
+    console.log(chalk.cyan(file));
+    for (const entry of imports) {
+      importCount += 1;
+      const notes = [
+        entry.resolvedVia === "alias" ? "tsconfig path alias" : "package name",
+      ];
+      if (entry.isTypeOnly) {
+        notes.push("type-only");
+        typeOnlyCount += 1;
+      }
+      console.log(
+        `  ${chalk.gray(`${entry.line}:${entry.column}`.padEnd(8))}"${
+          entry.specifier
+        }"  ${chalk.gray(notes.join(", "))}`,
+      );
+    }
+  }
+  console.log();
+  console.log(
+    chalk.gray(
+      `${files.length} file${files.length === 1 ? "" : "s"}, ${importCount} import${
+        importCount === 1 ? "" : "s"
+      }`,
+    ),
+  );
+  if (
+    kind === "workspace" &&
+    importCount > 0 &&
+    typeOnlyCount === importCount
+  ) {
+    console.log(
+      chalk.gray("Only type-only imports, so there is no dependency edge."),
+    );
+  }
+}
+
+export interface RunWhyOptions {
+  rootDir: string;
+  from: string;
+  to: string;
+  /** Scan settings forwarded to the report generator (exclude, tooling). */
+  reportOptions?: ReportScanOptions;
+  /** Print the explanation as JSON on stdout instead of text. */
+  json?: boolean;
+  generateReport: GenerateDependencyReport;
+  ora: OraFactory;
+  chalk: ChalkInstance;
+}
+
+export async function runWhy({
+  rootDir,
+  from,
+  to,
+  reportOptions = {},
+  json = false,
+  generateReport,
+  ora,
+  chalk,
+}: RunWhyOptions): Promise<DependencyExplanation> {
+  const spinner = ora({
+    text: "Analysing workspace...",
+    stream: process.stderr,
+  }).start();
+  let explanation: DependencyExplanation;
+  try {
+    const report = await generateReport({
+      ...reportOptions,
+      rootDir: path.resolve(rootDir),
+      onProgress: (msg: string, progress?: number) => {
+        const prefix = progress ? `[${Math.round(progress)}%] ` : "";
+        spinner.text = chalk.cyan(`${prefix}${msg}`);
+      },
+    });
+    explanation = explainDependency(report, from, to);
+    spinner.stop();
+  } catch (error) {
+    spinner.fail(chalk.red((error as Error).message));
+    throw error;
+  }
+
+  if (json) {
+    process.stdout.write(`${JSON.stringify(explanation, null, 2)}\n`);
+  } else {
+    printDependencyExplanation(explanation, chalk);
+  }
+  return explanation;
+}
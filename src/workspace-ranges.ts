@@ -0,0 +1,107 @@
+import path from "path";
+import { isSemverRange, satisfiesRange } from "./semver.js";
+import type { PkgInfo, WorkspaceRangeIssue } from "./types.js";
+
+export const WORKSPACE_PROTOCOL = "workspace:";
+
+const LOCAL_PATH_PROTOCOLS = ["file:", "link:"];
+const TARBALL_PATTERN = /\.(?:tgz|tar\.gz|tar)$/i;
+
+type RangeStyle = "workspace" | "semver";
+
+function rangeStyle(range: string): RangeStyle | null {
+  if (range.startsWith(WORKSPACE_PROTOCOL)) return "workspace";
+  return isSemverRange(range) ? "semver" : null;
+}
+
+// `workspace:*`, `workspace:^` and `workspace:~` always follow the target's
+// version; anything else after the protocol is a regular range.
+function effectiveRange(range: string): string | null {
+  if (!range.startsWith(WORKSPACE_PROTOCOL)) return range;
+  const rest = range.slice(WORKSPACE_PROTOCOL.length);
+  return rest === "*" || rest === "^" || rest === "~" ? null : rest;
+}
+
+/**
+ * Validate how every package declares its workspace dependencies: ranges must
+ * accept the target's current version, all internal ranges should use the
+ * protocol most of the workspace uses, and `file:`/`link:` references must
+ * point at workspace packages.
+ */
+export function validateWorkspaceRanges(
+  pkgs: PkgInfo[],
+): Map<string, WorkspaceRangeIssue[]> {
+  const versionByName = new Map(pkgs.map((pkg) => [pkg.name, pkg.version]));
+  const packageDirs = new Set(pkgs.map((pkg) => path.resolve(pkg.dir)));
+
+  const styleCounts: Record<RangeStyle, number> = { workspace: 0, semver: 0 };
+  for (const pkg of pkgs) {
+    for (const [dep, range] of Object.entries(
+      pkg.declaredVersionRanges ?? {},
+    )) {
+      if (!versionByName.has(dep)) continue;
+      const style = rangeStyle(range);
+      if (style) styleCounts[style] += 1;
+    }
+  }
+  const dominantStyle: RangeStyle =
+    styleCounts.semver > styleCounts.workspace ? "semver" : "workspace";
+
+  const issuesByName = new Map<string, WorkspaceRangeIssue[]>();
+  for (const pkg of pkgs) {
+    const issues: WorkspaceRangeIssue[] = [];
+    const entries = Object.entries(pkg.declaredVersionRanges ?? {}).sort(
+      ([a], [b]) => a.localeCompare(b),
+    );
+    for (const [dep, range] of entries) {
+      const localProtocol = LOCAL_PATH_PROTOCOLS.find((protocol) =>
+        range.startsWith(protocol),
+      );
+      if (localProtocol) {
+        const target = range.slice(localProtocol.length);
+        if (TARBALL_PATTERN.test(target)) continue;
+        const targetDir = path.resolve(pkg.dir, target);
+        if (!packageDirs.has(targetDir)) {
+          issues.push({
+            dependency: dep,
+            range,
+            kind: "unknownPath",
+            message: `${range} does not point at a workspace package`,
+          });
+        }
+        continue;
+      }
+
+      const targetVersion = versionByName.get(dep);
+      if (targetVersion === undefined) continue;
+
+      const style = rangeStyle(range);
+      if (style && style !== dominantStyle) {
+        issues.push({
+          dependency: dep,
+          range,
+          kind: "mixedProtocol",
+          message:
+            dominantStyle === "workspace"
+              ? `uses a plain semver range while the workspace uses the ${WORKSPACE_PROTOCOL} protocol`
+              : `uses the ${WORKSPACE_PROTOCOL} protocol while the workspace uses plain semver ranges`,
+        });
+      }
+
+      const semverRange = effectiveRange(range);
+      if (
+        semverRange !== null &&
+        satisfiesRange(targetVersion, semverRange) === false
+      ) {
+        issues.push({
+          dependency: dep,
+          range,
+          kind: "unsatisfiedRange",
+          message: `${range} does not match ${dep}@${targetVersion}`,
+        });
+      }
+    }
+    issuesByName.set(pkg.name, issues);
+  }
+  return issuesByName;
+}
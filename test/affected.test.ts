@@ -0,0 +1,78 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { execFileSync } from "child_process";
+import path from "path";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  findAffectedPackages,
+  parseFileList,
+  resolveGitPaths,
+} from "../src/affected";
+import type { DependencyReport } from "../src/types";
+
+describe("affected.ts - findAffectedPackages", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("adds every transitive dependent of the changed packages", () => {
+    expect(
+      findAffectedPackages(report, [
+        "packages/utils/src/index.ts",
+        path.join(fixture.rootDir, "packages/utils/package.json"),
+      ]),
+    ).toEqual({
+      changedPackages: ["@workspace/utils"],
+      affectedPackages: [
+        "@workspace/app-one",
+        "@workspace/app-two",
+        "@workspace/ui",
+        "@workspace/utils",
+      ],
+      configFiles: [],
+      unownedFiles: [],
+    });
+  });
+
+  test("root config changes only spread with includeConfig", () => {
+    const files = ["tsconfig.json", "../elsewhere/file.ts"];
+    const scoped = findAffectedPackages(report, files);
+    expect(scoped.configFiles).toEqual(["tsconfig.json"]);
+    expect(scoped.changedPackages).toEqual(["workspace-root"]);
+    expect(scoped.affectedPackages).toEqual(["workspace-root"]);
+    expect(scoped.unownedFiles).toEqual([
+      path.resolve(fixture.rootDir, "../elsewhere/file.ts"),
+    ]);
+
+    expect(
+      findAffectedPackages(report, files, { includeConfig: true })
+        .affectedPackages,
+    ).toEqual(report.packages.map((pkg) => pkg.name).sort());
+  });
+
+  test("resolveGitPaths reads stdin paths from the git top-level", async () => {
+    execFileSync("git", ["init", "--quiet"], { cwd: fixture.rootDir });
+    const subdirectory = path.join(fixture.rootDir, "packages/ui");
+    const [file] = await resolveGitPaths(
+      ["packages/utils/src/index.ts"],
+      subdirectory,
+    );
+
+    expect(findAffectedPackages(report, [file]).changedPackages).toEqual([
+      "@workspace/utils",
+    ]);
+  });
+
+  test("parseFileList trims lines and drops blanks", () => {
+    expect(parseFileList("a.ts\r\n\n  b/c.ts \n")).toEqual(["a.ts", "b/c.ts"]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  collectCheckFindings,
+  evaluateCheck,
+  type CheckFinding,
+} from "../src/check";
+import {
+  compareWithBaseline,
+  createBaseline,
+  readBaseline,
+  writeBaseline,
+} from "../src/baseline";
+import type { DependencyReport } from "../src/types";
+
+describe("baseline.ts - accepted findings", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("createBaseline groups sorted entries per category", () => {
+    const baseline = createBaseline(collectCheckFindings(report));
+
+    expect(baseline.version).toBe(1);
+    expect(baseline.findings.cycles).toEqual([
+      "@workspace/platform-core -> @workspace/platform-gateway",
+      "@workspace/platform-gateway -> @workspace/platform-core",
+    ]);
+    expect(baseline.findings.undeclaredDeps).toContain(
+      "@workspace/app-two -> @workspace/utils",
+    );
+  });
+
+  test("a full baseline suppresses every current finding", () => {
+    const baseline = createBaseline(collectCheckFindings(report));
+    const result = evaluateCheck(
+      report,
+      { cycles: 0, undeclaredDeps: 0 },
+      baseline,
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.categories[0]).toMatchObject({
+      category: "cycles",
+      findings: [],
+      baselined: 2,
+    });
+    expect(result.resolvedBaselineEntries).toEqual([]);
+  });
+
+  test("new findings fail and fixed entries are reported as resolved", () => {
+    const baseline = createBaseline(collectCheckFindings(report));
+    baseline.findings.cycles = [
+      "@workspace/platform-core -> @workspace/platform-gateway",
+      "@workspace/legacy -> @workspace/platform-core",
+    ];
+
+    const result = evaluateCheck(report, { cycles: 0 }, baseline);
+    expect(result.passed).toBe(false);
+    expect(
+      result.categories[0].findings.map(
+        (finding) => `${finding.packageName}->${finding.target}`,
+      ),
+    ).toEqual(["@workspace/platform-gateway->@workspace/platform-core"]);
+    expect(result.resolvedBaselineEntries).toEqual([
+      { category: "cycles", entry: "@workspace/legacy -> @workspace/platform-core" },
+    ]);
+
+    const comparison = compareWithBaseline(
+      collectCheckFindings(report),
+      baseline,
+    );
+    expect(comparison.known.length).toBeGreaterThan(0);
+  });
+
+  test("baseline files round-trip and invalid ones are rejected", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "retracify-baseline-"));
+    try {
+      const filePath = path.join(tmpDir, "nested", "baseline.json");
+      expect(await readBaseline(filePath)).toBeNull();
+
+      const baseline = createBaseline(collectCheckFindings(report));
+      await writeBaseline(filePath, baseline);
+      expect(await readBaseline(filePath)).toEqual(baseline);
+
+      const invalidPath = path.join(tmpDir, "invalid.json");
+      await fs.writeFile(invalidPath, JSON.stringify({ findings: { cycles: [1] } }));
+      await expect(readBaseline(invalidPath)).rejects.toThrow(
+        '"findings.cycles" must be an array of strings',
+      );
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("baseline.ts - finding identity", () => {
+  test("keeps findings of different kinds for the same pair apart", () => {
+    const finding = (kind: string): CheckFinding => ({
+      category: "workspaceRangeIssues",
+      packageName: "@x/app",
+      target: "@x/lib",
+      files: ["packages/app/package.json"],
+      kind,
+    });
+    const mixed = finding("mixedProtocol");
+    const unsatisfied = finding("unsatisfiedRange");
+
+    expect(createBaseline([mixed, unsatisfied]).findings).toEqual({
+      workspaceRangeIssues: [
+        "@x/app -> @x/lib (mixedProtocol)",
+        "@x/app -> @x/lib (unsatisfiedRange)",
+      ],
+    });
+
+    const comparison = compareWithBaseline(
+      [mixed, unsatisfied],
+      createBaseline([mixed]),
+    );
+    expect(comparison.known).toEqual([mixed]);
+    expect(comparison.fresh).toEqual([unsatisfied]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { findBrokenBoundaryRule, resolvePackageTags } from "../src/boundaries";
+import type { BoundaryRule, PkgInfo } from "../src/types";
+
+const pkgInfo = (name: string, dir: string, tags?: string[]): PkgInfo => ({
+  name,
+  version: "1.0.0",
+  dir,
+  tags,
+  fileCount: 0,
+});
+
+describe("boundaries.ts", () => {
+  test("resolvePackageTags merges package.json tags with matching globs", () => {
+    const tagGlobs = {
+      "packages/ui/**": ["type:ui"],
+      "@acme/billing-*": ["scope:billing"],
+      "apps/*": ["type:app"],
+    };
+
+    expect(
+      resolvePackageTags(
+        pkgInfo("@acme/billing-ui", "/repo/packages/ui", ["owner:web"]),
+        "/repo",
+        tagGlobs,
+      ),
+    ).toEqual(["owner:web", "scope:billing", "type:ui"]);
+    expect(
+      resolvePackageTags(pkgInfo("server", "/repo/services/server"), "/repo", tagGlobs),
+    ).toEqual([]);
+  });
+
+  test("findBrokenBoundaryRule applies deny before allow, in rule order", () => {
+    const rules: BoundaryRule[] = [
+      { from: "type:ui", allow: ["type:ui", "type:util"] },
+      { from: "*", deny: ["type:server"] },
+    ];
+
+    expect(findBrokenBoundaryRule(["type:ui"], ["type:util"], rules)).toBeNull();
+    expect(findBrokenBoundaryRule(["type:ui"], ["type:server"], rules)).toMatchObject({
+      rule: rules[0],
+      message: '"type:ui" may only depend on "type:ui", "type:util"',
+    });
+    expect(findBrokenBoundaryRule(["type:app"], ["type:server"], rules)).toMatchObject({
+      rule: rules[1],
+      message: '"*" must not depend on "type:server"',
+    });
+    expect(findBrokenBoundaryRule([], [], [{ from: "type:ui", deny: ["*"] }])).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  computeBuildOrder,
+  findStronglyConnectedComponents,
+  renderBuildOrder,
+} from "../src/build-order";
+import type { DependencyReport } from "../src/types";
+
+describe("build-order.ts - findStronglyConnectedComponents", () => {
+  test("emits dependencies before their dependents", () => {
+    const edges = new Map([
+      ["app", new Set(["ui", "core"])],
+      ["ui", new Set(["core"])],
+      ["core", new Set(["gateway"])],
+      ["gateway", new Set(["core"])],
+      ["self", new Set(["self"])],
+    ]);
+
+    expect(findStronglyConnectedComponents(edges)).toEqual([
+      ["core", "gateway"],
+      ["ui"],
+      ["app"],
+      ["self"],
+    ]);
+  });
+});
+
+describe("build-order.ts - computeBuildOrder", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("groups packages into parallel levels and reports cycles", () => {
+    const { levels, cycles } = computeBuildOrder(report);
+
+    expect(levels.flat().sort()).toEqual(
+      report.packages.map((pkg) => pkg.name).sort(),
+    );
+    expect(levels[0]).toContain("@workspace/utils");
+    expect(levels[0]).toContain("@workspace/platform-core");
+    expect(levels[0]).toContain("@workspace/platform-gateway");
+    expect(levels[1]).toEqual(["@workspace/ui"]);
+    expect(levels[2]).toEqual(["@workspace/app-one", "@workspace/app-two"]);
+    expect(cycles).toEqual([
+      ["@workspace/platform-core", "@workspace/platform-gateway"],
+    ]);
+  });
+
+  test("renderBuildOrder lists each level and flags cycle members", () => {
+    const text = renderBuildOrder(report);
+
+    expect(text.startsWith("Build order: 10 packages in 3 levels\n")).toBe(true);
+    expect(text).toContain("Level 2\n  @workspace/ui\n");
+    expect(text).toContain("  @workspace/platform-core  (cycle)\n");
+    expect(text).toContain(
+      "Cycles preventing a clean order (1)\n  @workspace/platform-core <-> @workspace/platform-gateway\n",
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import path from "path";
+import { writeFile } from "fs/promises";
+import { createFixtureContext, type ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import { collectCheckFindings, evaluateCheck } from "../src/check";
+import type { DependencyReport } from "../src/types";
+
+describe("check.ts - report findings", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("collectCheckFindings lists offending edges with evidence files", () => {
+    const findings = collectCheckFindings(report);
+
+    const cycles = findings.filter((finding) => finding.category === "cycles");
+    expect(
+      cycles.map((finding) => `${finding.packageName}->${finding.target}`).sort(),
+    ).toEqual([
+      "@workspace/platform-core->@workspace/platform-gateway",
+      "@workspace/platform-gateway->@workspace/platform-core",
+    ]);
+    expect(cycles[0].files.length).toBeGreaterThan(0);
+
+    const undeclared = findings.find(
+      (finding) => finding.category === "undeclaredDeps",
+    );
+    expect(undeclared).toMatchObject({
+      packageName: "@workspace/app-two",
+      target: "@workspace/utils",
+      files: ["apps/app-two/src/index.ts"],
+    });
+
+    expect(
+      findings.some(
+        (finding) =>
+          finding.category === "undeclaredExternalDeps" &&
+          finding.target === "axios",
+      ),
+    ).toBe(true);
+    expect(
+      findings.find(
+        (finding) =>
+          finding.category === "unusedExternalDeps" &&
+          finding.packageName === "@workspace/app-one",
+      ),
+    ).toMatchObject({
+      target: "lodash",
+      files: ["apps/app-one/package.json"],
+    });
+  });
+
+  test("evaluateCheck only checks enabled categories against their max", () => {
+    const strict = evaluateCheck(report, { cycles: 0 });
+    expect(strict.passed).toBe(false);
+    expect(strict.categories.map((category) => category.category)).toEqual([
+      "cycles",
+    ]);
+
+    const lenient = evaluateCheck(report, { cycles: 2, undeclaredDeps: 5 });
+    expect(lenient.passed).toBe(true);
+    expect(lenient.categories).toHaveLength(2);
+  });
+
+  test("reports imports that break boundary rules", async () => {
+    const tagged = await generateDependencyReport({
+      rootDir: fixture.rootDir,
+      boundaries: {
+        tags: {
+          "apps/*": ["type:app"],
+          "@workspace/platform-*": ["scope:platform"],
+        },
+        rules: [{ from: "type:app", deny: ["scope:platform"] }],
+      },
+    });
+
+    const appOne = tagged.packages.find(
+      (pkg) => pkg.name === "@workspace/app-one",
+    )!;
+    expect(appOne.tags).toEqual(["type:app"]);
+    expect(appOne.boundaryViolations).toEqual([
+      {
+        target: "@workspace/platform-core",
+        rule: "type:app",
+        message: '"type:app" must not depend on "scope:platform"',
+        files: ["src/index.ts"],
+      },
+    ]);
+
+    const result = evaluateCheck(tagged, { boundaryViolations: 0 });
+    expect(result.passed).toBe(false);
+    expect(result.categories[0].findings).toMatchObject([
+      {
+        packageName: "@workspace/app-one",
+        target: "@workspace/platform-core",
+        files: ["apps/app-one/src/index.ts"],
+      },
+    ]);
+    expect(evaluateCheck(report, { boundaryViolations: 0 }).passed).toBe(true);
+  });
+
+  test("reports workspace ranges that reject the target version", async () => {
+    const ranged = await createWorkspaceFixture();
+    try {
+      await writeFile(
+        path.join(ranged.rootDir, "packages/ui/package.json"),
+        JSON.stringify({
+          name: "@workspace/ui",
+          version: "1.0.0",
+          dependencies: { "@workspace/utils": "workspace:^2.0.0" },
+        }),
+      );
+      const rangedReport = await generateDependencyReport({
+        rootDir: ranged.rootDir,
+      });
+
+      const result = evaluateCheck(rangedReport, { workspaceRangeIssues: 0 });
+      expect(result.passed).toBe(false);
+      expect(result.categories[0].findings).toEqual([
+        {
+          category: "workspaceRangeIssues",
+          packageName: "@workspace/ui",
+          target: "@workspace/utils",
+          files: ["packages/ui/package.json"],
+          kind: "unsatisfiedRange",
+          detail: "workspace:^2.0.0 does not match @workspace/utils@1.0.0",
+        },
+      ]);
+      expect(evaluateCheck(report, { workspaceRangeIssues: 0 }).passed).toBe(
+        true,
+      );
+    } finally {
+      await ranged.cleanup();
+    }
+  });
+
+  test("reports packages whose external ranges drift from the common one", async () => {
+    const drifted = await createWorkspaceFixture();
+    try {
+      await writeFile(
+        path.join(drifted.rootDir, "packages/ui/package.json"),
+        JSON.stringify({
+          name: "@workspace/ui",
+          version: "1.0.0",
+          dependencies: {
+            "@workspace/utils": "workspace:*",
+            react: "^17.0.0",
+          },
+        }),
+      );
+      const driftedReport = await generateDependencyReport({
+        rootDir: drifted.rootDir,
+      });
+
+      const result = evaluateCheck(driftedReport, { versionDrift: 0 });
+      expect(result.passed).toBe(false);
+      expect(result.categories[0].findings).toEqual([
+        {
+          category: "versionDrift",
+          packageName: "@workspace/ui",
+          target: "react",
+          files: ["packages/ui/package.json"],
+          detail:
+            "declares ^17.0.0 while the most common range is ^18.0.0 (incompatible)",
+        },
+      ]);
+      expect(evaluateCheck(report, { versionDrift: 0 }).passed).toBe(true);
+    } finally {
+      await drifted.cleanup();
+    }
+  });
+
+  test("flags every package when no range is the most common", async () => {
+    const context = await createFixtureContext("retracify-drift-tie");
+    try {
+      await context.writeFile("package.json", {
+        name: "root",
+        private: true,
+        workspaces: ["packages/*"],
+      });
+      await context.writeFile("packages/a/package.json", {
+        name: "@x/a",
+        version: "1.0.0",
+        dependencies: { react: "^18.0.0" },
+      });
+      await context.writeFile("packages/b/package.json", {
+        name: "@x/b",
+        version: "1.0.0",
+        dependencies: { react: "^17.0.0" },
+      });
+      const tiedReport = await generateDependencyReport({
+        rootDir: context.rootDir,
+      });
+
+      const findings = collectCheckFindings(tiedReport).filter(
+        (finding) => finding.category === "versionDrift",
+      );
+      expect(
+        findings
+          .map((finding) => [finding.packageName, finding.detail])
+          .sort(),
+      ).toEqual([
+        [
+          "@x/a",
+          "declares ^18.0.0 while other packages declare ^17.0.0 (incompatible)",
+        ],
+        [
+          "@x/b",
+          "declares ^17.0.0 while other packages declare ^18.0.0 (incompatible)",
+        ],
+      ]);
+    } finally {
+      await context.cleanup();
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { execFileSync, spawnSync } from "child_process";
+import path from "path";
+import { createFixtureContext, type ProjectFixture } from "./fixtures/shared";
+
+const repoRoot = path.resolve(import.meta.dir, "..");
+const bin = path.join(repoRoot, "dist/index.js");
+
+// Runs the published entry point under Node rather than Bun, which would
+// happily import TypeScript on its own.
+describe("built CLI under node", () => {
+  let fixture: ProjectFixture & {
+    writeFile: (relativePath: string, contents: unknown) => Promise<void>;
+  };
+
+  beforeAll(async () => {
+    execFileSync("bun", ["run", "build"], { cwd: repoRoot, stdio: "ignore" });
+    fixture = await createFixtureContext("retracify-cli");
+    await fixture.writeFile("package.json", {
+      name: "root",
+      private: true,
+      workspaces: ["packages/*"],
+    });
+    await fixture.writeFile("packages/a/package.json", {
+      name: "a",
+      version: "1.0.0",
+    });
+    await fixture.writeFile("packages/a/src/index.ts", `import "left-pad";\n`);
+  }, 120_000);
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("check loads retracify.config.ts", async () => {
+    await fixture.writeFile(
+      "retracify.config.ts",
+      [
+        `type Thresholds = Record<string, number>;`,
+        `const check: Thresholds = { undeclaredExternalDeps: 1 };`,
+        `export default { check } satisfies { check: Thresholds };`,
+        "",
+      ].join("\n"),
+    );
+
+    const result = spawnSync("node", [bin, "check", fixture.rootDir], {
+      encoding: "utf8",
+    });
+
+    expect(result.stderr).not.toContain("Unable to load");
+    expect(result.stderr).toContain("retracify.config.ts");
+    expect(result.stdout).toContain(
+      "Undeclared external dependencies: 1 found (max 1)",
+    );
+    expect(result.status).toBe(0);
+  });
+});
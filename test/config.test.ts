@@ -0,0 +1,187 @@
+import path from "path";
+import { readdir, readFile, writeFile } from "fs/promises";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createFixtureContext } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  loadRetracifyConfig,
+  resolveReportScanOptions,
+  validateRetracifyConfig,
+} from "../src/config";
+
+describe("config.ts - loading", () => {
+  let context: Awaited<ReturnType<typeof createFixtureContext>>;
+
+  beforeEach(async () => {
+    context = await createFixtureContext("retracify-config");
+  });
+
+  afterEach(async () => {
+    await context.cleanup();
+  });
+
+  test("returns an empty config when nothing is declared", async () => {
+    await context.writeFile("package.json", { name: "root" });
+
+    const loaded = await loadRetracifyConfig(context.rootDir);
+    expect(loaded).toEqual({ config: {}, source: null });
+  });
+
+  test("prefers retracify.config.json over package.json", async () => {
+    await context.writeFile("package.json", {
+      name: "root",
+      retracify: { exclude: ["ignored/**"] },
+    });
+    await context.writeFile("retracify.config.json", {
+      exclude: ["examples/**"],
+      server: { port: 5000, watchIgnore: ["tmp"] },
+    });
+
+    const loaded = await loadRetracifyConfig(context.rootDir);
+    expect(loaded.source).toBe(
+      path.join(context.rootDir, "retracify.config.json"),
+    );
+    expect(loaded.config.exclude).toEqual(["examples/**"]);
+    expect(loaded.config.server?.port).toBe(5000);
+  });
+
+  test("reads the retracify key from the root package.json", async () => {
+    await context.writeFile("package.json", {
+      name: "root",
+      retracify: { check: { cycles: 0 } },
+    });
+
+    const loaded = await loadRetracifyConfig(context.rootDir);
+    expect(loaded.config).toEqual({ check: { cycles: 0 } });
+  });
+
+  test("accepts package tags next to the config in package.json", async () => {
+    await context.writeFile("package.json", {
+      name: "root",
+      retracify: { tags: ["type:app"], check: { cycles: 0 } },
+    });
+
+    const loaded = await loadRetracifyConfig(context.rootDir);
+    expect(loaded.config).toEqual({ check: { cycles: 0 } });
+    expect(() =>
+      validateRetracifyConfig({ tags: ["type:app"] }, "retracify.config.json"),
+    ).toThrow('"tags" is not a known option');
+  });
+
+  test("a tagged root package still loads its config and keeps its tags", async () => {
+    const fixture = await createWorkspaceFixture();
+    try {
+      const manifestPath = path.join(fixture.rootDir, "package.json");
+      const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+      manifest.retracify = { tags: ["type:app"], allPackages: false };
+      await writeFile(manifestPath, JSON.stringify(manifest));
+
+      const loaded = await loadRetracifyConfig(fixture.rootDir);
+      expect(loaded.config).toEqual({ allPackages: false });
+
+      const report = await generateDependencyReport({
+        rootDir: fixture.rootDir,
+        ...resolveReportScanOptions(fixture.rootDir, loaded.config),
+      });
+      const rootPkg = report.packages.find(
+        (pkg) => pkg.name === "workspace-root",
+      );
+      expect(rootPkg?.tags).toEqual(["type:app"]);
+    } finally {
+      await fixture.cleanup();
+    }
+  });
+
+  test("loads JavaScript configs through their default export", async () => {
+    await context.writeFile(
+      "retracify.config.mjs",
+      `export default { toolingPatterns: ["^storybook$"] };\n`,
+    );
+
+    const loaded = await loadRetracifyConfig(context.rootDir);
+    expect(loaded.config.toolingPatterns).toEqual(["^storybook$"]);
+  });
+
+  test("removes the transpiled TypeScript config after loading", async () => {
+    await context.writeFile(
+      "retracify.config.ts",
+      `const patterns: string[] = ["^storybook$"];\nexport default { toolingPatterns: patterns };\n`,
+    );
+
+    const loaded = await loadRetracifyConfig(context.rootDir);
+    expect(loaded.config.toolingPatterns).toEqual(["^storybook$"]);
+
+    await context.writeFile(
+      "retracify.config.ts",
+      `throw new Error("broken config");\n`,
+    );
+    await expect(loadRetracifyConfig(context.rootDir)).rejects.toThrow(
+      "broken config",
+    );
+    expect(await readdir(context.rootDir)).toEqual(["retracify.config.ts"]);
+  });
+
+  test("fails when an explicit config path does not exist", async () => {
+    await expect(
+      loadRetracifyConfig(context.rootDir, "missing.json"),
+    ).rejects.toThrow("Retracify config not found");
+  });
+});
+
+describe("config.ts - validation", () => {
+  test("points at unknown keys", () => {
+    expect(() =>
+      validateRetracifyConfig({ server: { prot: 1 } }, "retracify.config.json"),
+    ).toThrow(
+      'Invalid Retracify config in retracify.config.json: "server.prot" is not a known option',
+    );
+  });
+
+  test("rejects keys inherited from Object.prototype", () => {
+    expect(() =>
+      validateRetracifyConfig({ toString: "x" }, "cfg"),
+    ).toThrow('"toString" is not a known option');
+    expect(() =>
+      validateRetracifyConfig({ server: { constructor: 1 } }, "cfg"),
+    ).toThrow('"server.constructor" is not a known option');
+  });
+
+  test("points at values with the wrong type", () => {
+    expect(() =>
+      validateRetracifyConfig({ exclude: ["ok", 3] }, "cfg"),
+    ).toThrow('"exclude[1]" must be a non-empty string');
+    expect(() =>
+      validateRetracifyConfig({ server: { port: 70000 } }, "cfg"),
+    ).toThrow('"server.port" must be an integer between 1 and 65535');
+    expect(() =>
+      validateRetracifyConfig({ check: { cycles: -1 } }, "cfg"),
+    ).toThrow('"check.cycles" must be a non-negative integer');
+    expect(() =>
+      validateRetracifyConfig({ toolingPatterns: ["("] }, "cfg"),
+    ).toThrow('"toolingPatterns[0]" is not a valid regular expression');
+    expect(() =>
+      validateRetracifyConfig(
+        { boundaries: { tags: { "apps/*": "type:app" } } },
+        "cfg",
+      ),
+    ).toThrow('"boundaries.tags.apps/*" must be an array of strings');
+    expect(() =>
+      validateRetracifyConfig(
+        { boundaries: { rules: [{ from: "type:ui" }] } },
+        "cfg",
+      ),
+    ).toThrow('"boundaries.rules[0]" needs an "allow" or "deny" list');
+  });
+
+  test("resolveReportScanOptions anchors excludes and compiles patterns", () => {
+    const options = resolveReportScanOptions("/repo", {
+      exclude: ["examples/**", "**/fixtures/**"],
+      toolingPatterns: ["^storybook$"],
+    });
+    expect(options.exclude).toContain("**/node_modules/**");
+    expect(options.exclude).toContain("/repo/examples/**");
+    expect(options.exclude).toContain("**/fixtures/**");
+    expect(options.toolingPatterns?.[0].test("Storybook")).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import { findDependencyPaths } from "../src/dependency-path";
+import type { DependencyReport } from "../src/types";
+
+const route = (hops: { from: string; to: string }[] | null) =>
+  hops ? [hops[0].from, ...hops.map((hop) => hop.to)] : null;
+
+describe("dependency-path.ts - findDependencyPaths", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("returns the shortest chain with the files behind each hop", () => {
+    const result = findDependencyPaths(
+      report,
+      "@workspace/type-only",
+      "@workspace/utils",
+    );
+    expect(result).toEqual({
+      from: "@workspace/type-only",
+      to: "@workspace/utils",
+      shortest: null,
+    });
+
+    const chain = findDependencyPaths(report, "@workspace/app-two", "@workspace/ui");
+    expect(chain.shortest).toEqual([
+      {
+        from: "@workspace/app-two",
+        to: "@workspace/ui",
+        files: ["apps/app-two/src/index.ts"],
+      },
+    ]);
+    expect(chain.paths).toBeUndefined();
+  });
+
+  test("lists every simple path shortest first and keeps the shortest under maxPaths", () => {
+    const result = findDependencyPaths(
+      report,
+      "@workspace/app-two",
+      "@workspace/utils",
+      { all: true },
+    );
+    expect(route(result.shortest)).toEqual([
+      "@workspace/app-two",
+      "@workspace/utils",
+    ]);
+    expect(result.paths?.map(route)).toEqual([
+      ["@workspace/app-two", "@workspace/utils"],
+      ["@workspace/app-two", "@workspace/ui", "@workspace/utils"],
+    ]);
+    expect(result.paths?.[1][1].files).toEqual([
+      "packages/ui/src/index.ts",
+      "packages/ui/src/loader.ts",
+    ]);
+    expect(result.truncated).toBe(false);
+
+    const limited = findDependencyPaths(
+      report,
+      "@workspace/app-two",
+      "@workspace/utils",
+      { all: true, maxPaths: 1 },
+    );
+    expect(limited.paths?.map(route)).toEqual([
+      ["@workspace/app-two", "@workspace/utils"],
+    ]);
+    expect(limited.truncated).toBe(true);
+  });
+
+  test("rejects unknown packages", () => {
+    expect(() =>
+      findDependencyPaths(report, "@workspace/app-two", "left-pad"),
+    ).toThrow('Unknown package "left-pad".');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { Chalk } from "chalk";
+import { execFileSync } from "child_process";
+import { writeFile } from "fs/promises";
+import path from "path";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  checkoutRef,
+  diffDependencyReports,
+  isEmptyDiff,
+  printReportDiff,
+} from "../src/diff";
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync(
+    "git",
+    ["-c", "user.name=Retracify", "-c", "user.email=dev@retracify.test", ...args],
+    { cwd, encoding: "utf8" },
+  ).trim();
+}
+
+describe("diff.ts - comparing git refs", () => {
+  let fixture: ProjectFixture;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    git(fixture.rootDir, ["init", "--quiet"]);
+    git(fixture.rootDir, ["add", "-A"]);
+    git(fixture.rootDir, ["commit", "--quiet", "-m", "base"]);
+    git(fixture.rootDir, ["tag", "base"]);
+
+    // Break the platform cycle and introduce an undeclared utils -> ui edge.
+    await writeFile(
+      path.join(fixture.rootDir, "packages/platform/gateway/src/index.ts"),
+      `export const gateway = () => "gateway";\n`,
+      "utf8",
+    );
+    await writeFile(
+      path.join(fixture.rootDir, "packages/utils/src/render.ts"),
+      `import { ui } from "@workspace/ui";\nexport const render = () => ui("x");\n`,
+      "utf8",
+    );
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("diffDependencyReports reports edge, cycle and undeclared changes", async () => {
+    const checkout = await checkoutRef(fixture.rootDir, "base");
+    let base;
+    try {
+      base = await generateDependencyReport({ rootDir: checkout.rootDir });
+    } finally {
+      await checkout.cleanup();
+    }
+    const head = await generateDependencyReport({ rootDir: fixture.rootDir });
+
+    const diff = diffDependencyReports(base, head);
+
+    expect(diff.addedPackages).toEqual([]);
+    expect(diff.addedEdges).toEqual([
+      {
+        from: "@workspace/utils",
+        to: "@workspace/ui",
+        files: ["packages/utils/src/render.ts"],
+      },
+    ]);
+    expect(diff.removedEdges.map((edge) => `${edge.from}->${edge.to}`)).toEqual([
+      "@workspace/platform-gateway->@workspace/platform-core",
+    ]);
+
+    const introduced = diff.introduced.map(
+      (finding) => `${finding.category}:${finding.packageName}->${finding.target}`,
+    );
+    expect(introduced).toContain("undeclaredDeps:@workspace/utils->@workspace/ui");
+    expect(introduced).toContain("cycles:@workspace/ui->@workspace/utils");
+
+    const resolved = diff.resolved.map(
+      (finding) => `${finding.category}:${finding.packageName}->${finding.target}`,
+    );
+    expect(resolved).toContain(
+      "cycles:@workspace/platform-core->@workspace/platform-gateway",
+    );
+
+    expect(isEmptyDiff(diffDependencyReports(head, head))).toBe(true);
+  });
+
+  test("checkoutRef removes its worktree and rejects unknown refs", async () => {
+    const checkout = await checkoutRef(fixture.rootDir, "HEAD");
+    expect(git(fixture.rootDir, ["worktree", "list"]).split("\n")).toHaveLength(2);
+
+    await checkout.cleanup();
+    expect(git(fixture.rootDir, ["worktree", "list"]).split("\n")).toHaveLength(1);
+
+    await expect(checkoutRef(fixture.rootDir, "does-not-exist")).rejects.toThrow(
+      'Unknown git ref "does-not-exist".',
+    );
+  });
+});
+
+describe("diff.ts - printReportDiff", () => {
+  test("section headers count items, not evidence lines", () => {
+    const lines: string[] = [];
+    const logSpy = spyOn(console, "log").mockImplementation((line = "") => {
+      lines.push(String(line));
+    });
+    try {
+      printReportDiff(
+        {
+          addedPackages: [],
+          removedPackages: [],
+          addedEdges: [
+            { from: "@x/a", to: "@x/b", files: ["a/one.ts", "a/two.ts"] },
+          ],
+          removedEdges: [],
+          introduced: [],
+          resolved: [],
+          severityChanges: [],
+        },
+        { base: "main", head: "HEAD" },
+        new Chalk({ level: 0 }),
+      );
+    } finally {
+      logSpy.mockRestore();
+    }
+
+    expect(lines).toContain("Added edges (1)");
+    expect(lines).toContain("      a/two.ts");
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import path from "path";
+import { readFile } from "fs/promises";
+import { createFixtureContext, type ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  applyPackageFix,
+  detectPackageManager,
+  planPackageFixes,
+  renderUnifiedDiff,
+  type PackageFix,
+} from "../src/fix";
+import type { DependencyReport } from "../src/types";
+
+const fix = (overrides: Partial<PackageFix>): PackageFix => ({
+  packageName: "pkg",
+  manifest: "package.json",
+  add: [],
+  remove: [],
+  unresolved: [],
+  ...overrides,
+});
+
+describe("fix.ts - planPackageFixes", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("adds undeclared imports with workspace protocol and known ranges", () => {
+    const fixes = planPackageFixes(report, { removeUnused: true });
+
+    expect(fixes.find((entry) => entry.packageName === "@workspace/app-two")).toEqual({
+      packageName: "@workspace/app-two",
+      manifest: "apps/app-two/package.json",
+      add: [
+        { section: "dependencies", name: "@workspace/utils", range: "workspace:*" },
+      ],
+      remove: [],
+      unresolved: ["axios"],
+    });
+    expect(
+      fixes.find((entry) => entry.packageName === "@workspace/app-one")?.remove,
+    ).toEqual([{ section: "dependencies", name: "lodash" }]);
+    expect(
+      planPackageFixes(report).every((entry) => entry.remove.length === 0),
+    ).toBe(true);
+  });
+
+  test("npm workspaces get semver ranges instead of the workspace protocol", () => {
+    const appTwo = planPackageFixes(report, { packageManager: "npm" }).find(
+      (entry) => entry.packageName === "@workspace/app-two",
+    );
+
+    expect(appTwo?.add).toEqual([
+      { section: "dependencies", name: "@workspace/utils", range: "^1.0.0" },
+    ]);
+  });
+
+  test("the planned edit leaves the rest of package.json untouched", async () => {
+    const appTwo = planPackageFixes(report).find(
+      (entry) => entry.packageName === "@workspace/app-two",
+    )!;
+    const before = await readFile(
+      path.join(fixture.rootDir, appTwo.manifest),
+      "utf8",
+    );
+
+    const after = applyPackageFix(before, appTwo);
+    expect(JSON.parse(after)).toEqual({
+      ...JSON.parse(before),
+      dependencies: {
+        "@workspace/ui": "workspace:*",
+        "@workspace/utils": "workspace:*",
+        react: "^18.0.0",
+      },
+    });
+  });
+});
+
+describe("fix.ts - planPackageFixes with semver workspace ranges", () => {
+  test("ranges follow each target's version and unused optionals are removed", async () => {
+    const context = await createFixtureContext("retracify-fix");
+    try {
+      await context.writeFile("package.json", {
+        name: "root",
+        private: true,
+        workspaces: ["packages/*"],
+      });
+      await context.writeFile("packages/a/package.json", {
+        name: "a",
+        version: "1.0.0",
+      });
+      await context.writeFile("packages/a/src/index.ts", "export const a = 1;\n");
+      await context.writeFile("packages/b/package.json", {
+        name: "b",
+        version: "5.2.0",
+      });
+      await context.writeFile("packages/b/src/index.ts", "export const b = 1;\n");
+      await context.writeFile("packages/c/package.json", {
+        name: "c",
+        version: "1.0.0",
+        dependencies: { a: "^1.0.0" },
+        optionalDependencies: { fsevents: "^2.3.0" },
+      });
+      await context.writeFile(
+        "packages/c/src/index.ts",
+        `import "a";\nimport "b";\n`,
+      );
+      await context.writeFile("packages/d/package.json", {
+        name: "d",
+        version: "1.0.0",
+        dependencies: { a: "^1.0.0" },
+      });
+      await context.writeFile("packages/d/src/index.ts", `import "a";\n`);
+
+      const report = await generateDependencyReport({
+        rootDir: context.rootDir,
+      });
+      const c = planPackageFixes(report, { removeUnused: true }).find(
+        (entry) => entry.packageName === "c",
+      );
+
+      expect(c?.add).toEqual([
+        { section: "dependencies", name: "b", range: "^5.2.0" },
+      ]);
+      expect(c?.remove).toEqual([
+        { section: "optionalDependencies", name: "fsevents" },
+      ]);
+    } finally {
+      await context.cleanup();
+    }
+  });
+});
+
+describe("fix.ts - applyPackageFix", () => {
+  test("keeps indentation, inline values and key order", () => {
+    const before = [
+      "{",
+      '\t"name": "app",',
+      '\t"files": ["dist"],',
+      '\t"dependencies": {',
+      '\t\t"b": "^1.0.0",',
+      '\t\t"d": "^1.0.0"',
+      "\t},",
+      '\t"devDependencies": { "z": "1.0.0", "lodash": "^4.0.0", "m": "1.0.0" }',
+      "}",
+      "",
+    ].join("\n");
+
+    const after = applyPackageFix(
+      before,
+      fix({
+        add: [
+          { section: "dependencies", name: "c", range: "^2.0.0" },
+          { section: "dependencies", name: "e", range: "^3.0.0" },
+          { section: "devDependencies", name: "a", range: "1.0.0" },
+        ],
+        remove: [{ section: "devDependencies", name: "lodash" }],
+      }),
+    );
+
+    expect(after).toBe(
+      [
+        "{",
+        '\t"name": "app",',
+        '\t"files": ["dist"],',
+        '\t"dependencies": {',
+        '\t\t"b": "^1.0.0",',
+        '\t\t"c": "^2.0.0",',
+        '\t\t"d": "^1.0.0",',
+        '\t\t"e": "^3.0.0"',
+        "\t},",
+        '\t"devDependencies": { "z": "1.0.0", "m": "1.0.0", "a": "1.0.0" }',
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("creates a missing section ahead of devDependencies", () => {
+    const before = `{\n  "name": "app",\n  "devDependencies": {\n    "vitest": "1.0.0"\n  }\n}\n`;
+    const after = applyPackageFix(
+      before,
+      fix({
+        add: [{ section: "dependencies", name: "@acme/utils", range: "workspace:^" }],
+      }),
+    );
+
+    expect(after).toBe(
+      `{\n  "name": "app",\n  "dependencies": {\n    "@acme/utils": "workspace:^"\n  },\n  "devDependencies": {\n    "vitest": "1.0.0"\n  }\n}\n`,
+    );
+  });
+
+  test("empties a section when its last dependency is removed", () => {
+    const before = `{\n  "dependencies": {\n    "lodash": "^4.0.0"\n  }\n}\n`;
+    expect(
+      applyPackageFix(
+        before,
+        fix({ remove: [{ section: "dependencies", name: "lodash" }] }),
+      ),
+    ).toBe(`{\n  "dependencies": {}\n}\n`);
+  });
+});
+
+describe("fix.ts - renderUnifiedDiff", () => {
+  test("prints hunks with context lines", () => {
+    const before = ["{", '  "a": 1,', '  "b": 2', "}", ""].join("\n");
+    const after = ["{", '  "a": 1,', '  "b": 2,', '  "c": 3', "}", ""].join("\n");
+
+    expect(renderUnifiedDiff("package.json", before, after)).toBe(
+      [
+        "--- a/package.json",
+        "+++ b/package.json",
+        "@@ -1,4 +1,5 @@",
+        " {",
+        '   "a": 1,',
+        '-  "b": 2',
+        '+  "b": 2,',
+        '+  "c": 3',
+        " }",
+        "",
+      ].join("\n"),
+    );
+    expect(renderUnifiedDiff("package.json", before, before)).toBe("");
+  });
+});
+
+describe("fix.ts - detectPackageManager", () => {
+  test("prefers the packageManager field over lockfiles", async () => {
+    const context = await createFixtureContext("retracify-fix-pm");
+    try {
+      expect(await detectPackageManager(context.rootDir)).toBeNull();
+
+      await context.writeFile("package.json", { name: "root", private: true });
+      await context.writeFile("package-lock.json", { lockfileVersion: 3 });
+      expect(await detectPackageManager(context.rootDir)).toBe("npm");
+
+      await context.writeFile("package.json", {
+        name: "root",
+        private: true,
+        packageManager: "pnpm@9.1.0",
+      });
+      expect(await detectPackageManager(context.rootDir)).toBe("pnpm");
+    } finally {
+      await context.cleanup();
+    }
+  });
+});
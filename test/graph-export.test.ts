@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import {
+  buildPackageGraph,
+  filterPackageGraph,
+  renderCytoscapeJson,
+  renderDotGraph,
+  renderGraphml,
+  renderMermaidGraph,
+} from "../src/graph-export";
+import type { DependencyReport } from "../src/types";
+
+describe("graph-export.ts - package graph exports", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("buildPackageGraph weights edges by importing files", () => {
+    const { nodes, edges } = buildPackageGraph(report);
+
+    expect(nodes).toHaveLength(report.packages.length);
+    expect(
+      edges.find(
+        (edge) =>
+          edge.from === "@workspace/ui" && edge.to === "@workspace/utils",
+      ),
+    ).toEqual({
+      from: "@workspace/ui",
+      to: "@workspace/utils",
+      fileCount: 2,
+      isCyclic: false,
+    });
+    expect(edges.filter((edge) => edge.isCyclic)).toHaveLength(2);
+  });
+
+  test("renderDotGraph highlights cycles and clusters by directory", () => {
+    const flat = renderDotGraph(report);
+    expect(flat.startsWith("digraph retracify {")).toBe(true);
+    expect(flat).toContain(
+      '"@workspace/ui" -> "@workspace/utils" [weight=2, penwidth=2, label="2"];',
+    );
+    expect(flat).toMatch(
+      /"@workspace\/platform-core" -> "@workspace\/platform-gateway" \[[^\]]*color="#dc2626"/,
+    );
+    expect(flat).not.toContain("subgraph");
+
+    const clustered = renderDotGraph(report, { cluster: true });
+    expect(clustered).toContain('subgraph "cluster_apps" {');
+    expect(clustered).toContain('subgraph "cluster_packages" {');
+    expect(clustered.match(/subgraph/g)).toHaveLength(2);
+  });
+
+  test("filterPackageGraph keeps the focus neighbourhood and drops leaves", () => {
+    const graph = buildPackageGraph(report);
+    const names = (filtered: ReturnType<typeof filterPackageGraph>) =>
+      filtered.nodes.map((pkg) => pkg.name).sort();
+
+    expect(names(filterPackageGraph(graph, { focus: "@workspace/ui" }))).toEqual([
+      "@workspace/app-one",
+      "@workspace/app-two",
+      "@workspace/ui",
+      "@workspace/utils",
+    ]);
+    expect(
+      names(filterPackageGraph(graph, { focus: "@workspace/ui", depth: 0 })),
+    ).toEqual(["@workspace/ui"]);
+
+    const withoutLeaves = filterPackageGraph(graph, { hideLeaves: true });
+    expect(names(withoutLeaves)).not.toContain("@workspace/utils");
+    expect(
+      withoutLeaves.edges.every((edge) => edge.to !== "@workspace/utils"),
+    ).toBe(true);
+
+    expect(() => filterPackageGraph(graph, { focus: "@workspace/missing" })).toThrow(
+      'Unknown package "@workspace/missing" for --focus.',
+    );
+  });
+
+  test("renderMermaidGraph emits a flowchart with styled cycle links", () => {
+    const mermaid = renderMermaidGraph(report, {
+      focus: "@workspace/platform-core",
+    });
+    const lines = mermaid.trim().split("\n");
+
+    expect(lines[0]).toBe("flowchart LR");
+    expect(mermaid).toContain('["@workspace/platform-gateway"]');
+    expect(mermaid).toContain('["@workspace/app-one"]');
+    expect(mermaid).not.toContain('["@workspace/ui"]');
+    expect(lines.filter((line) => line.includes("==>"))).toHaveLength(2);
+    expect(mermaid).toMatch(/linkStyle \d+,\d+ stroke:#dc2626/);
+    expect(mermaid).toContain("class n");
+  });
+
+  test("renderGraphml carries package and edge attributes", () => {
+    const graphml = renderGraphml(report);
+
+    expect(graphml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(graphml).toContain(
+      '<key id="severityLevel" for="node" attr.name="severityLevel" attr.type="string"/>',
+    );
+    expect(graphml).toContain('<data key="label">@workspace/app-two</data>');
+    expect(graphml).toContain('<data key="relativeDir">apps/app-two</data>');
+    expect(graphml.match(/<node /g)).toHaveLength(report.packages.length);
+    expect(graphml.match(/<data key="cyclic">true<\/data>/g)).toHaveLength(2);
+  });
+
+  test("renderCytoscapeJson emits nodes and edges keyed by package name", () => {
+    const { elements } = JSON.parse(
+      renderCytoscapeJson(report, { focus: "@workspace/ui", depth: 0 }),
+    );
+
+    expect(elements.nodes).toEqual([
+      {
+        data: {
+          id: "@workspace/ui",
+          label: "@workspace/ui",
+          version: "1.0.0",
+          relativeDir: "packages/ui",
+          fileCount: 2,
+          references: expect.any(Number),
+          severityLevel: "stable",
+        },
+      },
+    ]);
+    expect(elements.edges).toEqual([]);
+
+    const full = JSON.parse(renderCytoscapeJson(report));
+    expect(full.elements.edges).toContainEqual({
+      data: {
+        id: "@workspace/ui->@workspace/utils",
+        source: "@workspace/ui",
+        target: "@workspace/utils",
+        fileCount: 2,
+        cyclic: false,
+      },
+    });
+  });
+});
@@ -63,6 +63,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 0,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: true,
           isToolingOnly: false,
         },
@@ -73,6 +76,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 0,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -83,6 +89,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 0,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -93,6 +102,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -103,6 +115,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 0,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -113,6 +128,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 0,
           declaredInDependencies: true,
           declaredInDevDependencies: false,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: false,
         },
@@ -123,6 +141,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -133,6 +154,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: true,
           declaredInDevDependencies: false,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: false,
         },
@@ -143,6 +167,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -153,6 +180,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 0,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -163,6 +193,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -173,6 +206,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: false,
           declaredInDevDependencies: true,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: true,
         },
@@ -211,6 +247,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: false,
           declaredInDevDependencies: false,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: false,
         },
@@ -221,6 +260,9 @@ describe("generateDependencyReport integration", () => {
           usageCount: 1,
           declaredInDependencies: true,
           declaredInDevDependencies: false,
+          declaredInPeerDependencies: false,
+          declaredInOptionalDependencies: false,
+          isOptionalPeer: false,
           isLikelyTypePackage: false,
           isToolingOnly: false,
         },
@@ -243,6 +285,37 @@ describe("generateDependencyReport integration", () => {
       expect(rootPkg.externalDependencies).toEqual([]);
     });
 
+    test("records the import site behind every dependency", async () => {
+      const report = await loadReport();
+      const appTwo = pickPackage(report, "@workspace/app-two");
+
+      const utilsDetail = appTwo.dependencyDetails.find(
+        (detail) => detail.name === "@workspace/utils",
+      );
+      expect(utilsDetail?.references).toEqual([
+        {
+          file: "src/index.ts",
+          line: 2,
+          column: 8,
+          specifier: "~utils",
+          isTypeOnly: false,
+          resolvedVia: "alias",
+        },
+      ]);
+
+      const axiosDetail = appTwo.externalDependencyDetails.find(
+        (detail) => detail.name === "axios",
+      );
+      expect(axiosDetail).toMatchObject({
+        files: ["src/index.ts"],
+        fileCount: 1,
+        references: [{ file: "src/index.ts", line: 4, column: 8 }],
+      });
+      expect(
+        appTwo.externalDependencyDetails.map((detail) => detail.name),
+      ).not.toContain("fs");
+    });
+
     test("reports cyclic dependencies symmetrically", async () => {
       const report = await loadReport();
 
@@ -1,4 +1,5 @@
 import path from "path";
+import { mkdir, writeFile } from "fs/promises";
 import { describe, test, expect } from "bun:test";
 import type { EdgeMap } from "../src/types";
 import {
@@ -8,7 +9,12 @@ import {
   analyzeImportGraph,
   generateDependencyReport,
 } from "../src/graph";
-import { discoverPackages, loadTsconfigAliasResolvers } from "../src/utils";
+import {
+  discoverPackages,
+  loadTsconfigAliasResolvers,
+  resolveGlobPatterns,
+} from "../src/utils";
+import { createFixtureContext } from "./fixtures/shared";
 import { createWorkspaceFixture } from "./fixtures/workspace-project";
 
 describe("graph.ts - Helper Functions", () => {
@@ -41,6 +47,22 @@ describe("graph.ts - Helper Functions", () => {
     expect(result.has("a->b")).toBe(true);
     expect(result.has("b->a")).toBe(true);
   });
+
+  test("identifyCyclicEdges flags every edge of a cycle entered twice", () => {
+    const edges: EdgeMap = new Map([
+      ["entry", new Set(["a", "c"])],
+      ["a", new Set(["b", "c"])],
+      ["b", new Set(["c"])],
+      ["c", new Set(["a"])],
+    ]);
+    const result = identifyCyclicEdges(edges);
+    expect(Array.from(result).sort()).toEqual([
+      "a->b",
+      "a->c",
+      "b->c",
+      "c->a",
+    ]);
+  });
 });
 
 describe("graph.ts - workspace analysis", () => {
@@ -103,4 +125,142 @@ describe("graph.ts - workspace analysis", () => {
       await fixture.cleanup();
     }
   });
+
+  test("packages outside the workspace globs are reported as strays", async () => {
+    const fixture = await createWorkspaceFixture();
+    try {
+      const demoDir = path.join(fixture.rootDir, "examples/demo");
+      await mkdir(path.join(demoDir, "src"), { recursive: true });
+      await writeFile(
+        path.join(demoDir, "package.json"),
+        JSON.stringify({ name: "demo", version: "1.0.0" }),
+      );
+      await writeFile(
+        path.join(demoDir, "src/index.ts"),
+        `import "@workspace/ui";\nimport "left-pad";\n`,
+      );
+
+      const report = await generateDependencyReport({
+        rootDir: fixture.rootDir,
+      });
+      expect(report.strayPackages).toEqual([
+        { name: "demo", relativeDir: "examples/demo" },
+      ]);
+      expect(report.packages.map((pkg) => pkg.name)).not.toContain("demo");
+      const rootPkg = report.packages.find(
+        (pkg) => pkg.name === "workspace-root",
+      );
+      expect(rootPkg?.dependencies).not.toContain("@workspace/ui");
+      expect(rootPkg?.undeclaredExternalDeps).not.toContain("left-pad");
+
+      const all = await generateDependencyReport({
+        rootDir: fixture.rootDir,
+        allPackages: true,
+      });
+      expect(all.strayPackages).toEqual([]);
+      expect(all.packages.map((pkg) => pkg.name)).toContain("demo");
+    } finally {
+      await fixture.cleanup();
+    }
+  });
+
+  test("root tsconfig aliases still apply when include narrows the scan", async () => {
+    const context = await createFixtureContext("retracify-include-alias");
+    try {
+      await context.writeFile("package.json", {
+        name: "root",
+        private: true,
+        workspaces: ["packages/*"],
+      });
+      await context.writeFile("tsconfig.json", {
+        compilerOptions: {
+          baseUrl: ".",
+          paths: { "~a/*": ["packages/a/src/*"] },
+        },
+      });
+      await context.writeFile("packages/a/package.json", {
+        name: "a",
+        version: "1.0.0",
+      });
+      await context.writeFile(
+        "packages/a/src/index.ts",
+        "export const a = 1;\n",
+      );
+      await context.writeFile("packages/b/package.json", {
+        name: "b",
+        version: "1.0.0",
+        dependencies: { a: "workspace:*" },
+      });
+      await context.writeFile(
+        "packages/b/src/index.ts",
+        `import "~a/index";\n`,
+      );
+
+      const report = await generateDependencyReport({
+        rootDir: context.rootDir,
+        include: resolveGlobPatterns(context.rootDir, ["packages/**"]),
+      });
+      const b = report.packages.find((pkg) => pkg.name === "b");
+      expect(b?.dependencies).toEqual(["a"]);
+      expect(b?.undeclaredExternalDeps).toEqual([]);
+    } finally {
+      await context.cleanup();
+    }
+  });
+
+  test("peer and optional dependencies count as declarations", async () => {
+    const fixture = await createWorkspaceFixture();
+    try {
+      const widgetsDir = path.join(fixture.rootDir, "packages/widgets");
+      await mkdir(path.join(widgetsDir, "src"), { recursive: true });
+      await writeFile(
+        path.join(widgetsDir, "package.json"),
+        JSON.stringify({
+          name: "@workspace/widgets",
+          version: "1.0.0",
+          peerDependencies: {
+            react: "^18.0.0",
+            "react-dom": "^18.0.0",
+            scheduler: "*",
+          },
+          peerDependenciesMeta: { "react-dom": { optional: true } },
+          devDependencies: { "react-dom": "^18.2.0" },
+          optionalDependencies: { fsevents: "^2.3.0" },
+        }),
+      );
+      await writeFile(
+        path.join(widgetsDir, "src/index.ts"),
+        `import React from "react";\nimport { render } from "react-dom";\nimport "fsevents";\nexport { React, render };\n`,
+      );
+
+      const report = await generateDependencyReport({
+        rootDir: fixture.rootDir,
+      });
+      const widgets = report.packages.find(
+        (pkg) => pkg.name === "@workspace/widgets",
+      )!;
+      const external = (name: string) =>
+        widgets.externalDependencies.find((dep) => dep.name === name);
+
+      expect(widgets.undeclaredExternalDeps).toEqual([]);
+      expect(widgets.unusedExternalDeps).toEqual([]);
+      expect(widgets.unmirroredPeerDeps).toEqual(["react", "scheduler"]);
+      expect(external("react")).toMatchObject({
+        isDeclared: true,
+        declaredInPeerDependencies: true,
+        isOptionalPeer: false,
+      });
+      expect(external("react-dom")).toMatchObject({
+        declaredInPeerDependencies: true,
+        declaredInDevDependencies: true,
+        isOptionalPeer: true,
+      });
+      expect(external("fsevents")).toMatchObject({
+        isDeclared: true,
+        declaredInOptionalDependencies: true,
+      });
+    } finally {
+      await fixture.cleanup();
+    }
+  });
 });
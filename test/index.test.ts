@@ -1,4 +1,7 @@
 import { describe, test, expect, mock, beforeEach, afterEach, spyOn } from "bun:test";
+import path from "path";
+import os from "os";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
 import type { ChalkInstance } from "chalk";
 
 const startLiveUiServer = mock<(
@@ -10,9 +13,16 @@ const startLiveUiServer = mock<(
     ora: unknown;
     chalk: ChalkInstance;
     autoOpen: boolean;
+    exclude?: string[];
+    include?: string[];
   },
 ) => Promise<void>>();
 
+const generateDependencyReport = mock(async (options: { rootDir?: string }) => ({
+  rootDir: options.rootDir ?? ".",
+  packages: [],
+}));
+
 const spinnerCalls: Array<{ text: string }> = [];
 
 const oraFactory = mock((text: string) => {
@@ -22,6 +32,7 @@ const oraFactory = mock((text: string) => {
     start: () => ({
       succeed: () => {},
       fail: () => {},
+      stop: () => {},
     }),
   } as any;
 });
@@ -49,11 +60,25 @@ async function executeCLI(argv: string[]): Promise<void> {
   await import(`../src/index?run=${Math.random()}`);
 }
 
+async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+  timeoutMs = 5000,
+): Promise<void> {
+  const startedAt = Date.now();
+  while (!(await condition())) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error("Timed out waiting for CLI to settle");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
 beforeEach(() => {
   mock.clearAllMocks();
   spinnerCalls.length = 0;
   (globalThis as any).__retracifyMocks = {
     startLiveUiServer,
+    generateDependencyReport,
     ora: oraFactory,
     chalk: chalkStub,
   };
@@ -74,6 +99,7 @@ describe("CLI entrypoint", () => {
     startLiveUiServer.mockResolvedValue();
 
     await executeCLI([]);
+    await waitFor(() => startLiveUiServer.mock.calls.length > 0);
 
     expect(processExitSpy).not.toHaveBeenCalled();
     expect(startLiveUiServer).toHaveBeenCalledTimes(1);
@@ -91,6 +117,7 @@ describe("CLI entrypoint", () => {
     startLiveUiServer.mockResolvedValue();
 
     await executeCLI(["../packages/app", "--port", "4321", "--host", "0.0.0.0", "--no-open"]);
+    await waitFor(() => startLiveUiServer.mock.calls.length > 0);
 
     expect(startLiveUiServer).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -102,6 +129,27 @@ describe("CLI entrypoint", () => {
     );
   });
 
+  test("passes --exclude and --include globs anchored to the root", async () => {
+    startLiveUiServer.mockResolvedValue();
+
+    await executeCLI([
+      "/repo",
+      "--exclude",
+      "examples",
+      "--exclude",
+      "**/fixtures/**",
+      "--include",
+      "packages/**",
+    ]);
+    await waitFor(() => startLiveUiServer.mock.calls.length > 0);
+
+    const [options] = startLiveUiServer.mock.calls[0]!;
+    expect(options.exclude).toEqual(
+      expect.arrayContaining(["/repo/examples", "**/fixtures/**"]),
+    );
+    expect(options.include).toEqual(["/repo/packages/**"]);
+  });
+
   test("shows help and exits when --help is provided", async () => {
     await executeCLI(["--help"]);
 
@@ -112,9 +160,421 @@ describe("CLI entrypoint", () => {
 
   test("fails on invalid port", async () => {
     await executeCLI(["--port", "abc"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
 
     expect(processExitSpy).toHaveBeenCalledWith(1);
     expect(startLiveUiServer).not.toHaveBeenCalled();
     expect(consoleErrorSpy).toHaveBeenCalled();
   });
+
+  test("writes a static HTML report when --output is provided", async () => {
+    const outputDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    const outputFile = path.join(outputDir, "atlas", "report.html");
+    try {
+      await executeCLI(["--output", outputFile]);
+      await waitFor(() =>
+        readFile(outputFile, "utf8").then(
+          () => true,
+          () => false,
+        ),
+      );
+
+      expect(processExitSpy).not.toHaveBeenCalled();
+      expect(startLiveUiServer).not.toHaveBeenCalled();
+      expect(generateDependencyReport).toHaveBeenCalledTimes(1);
+      const html = await readFile(outputFile, "utf8");
+      expect(html).toContain('id="reportData"');
+      expect(html).toContain("const isLiveMode = false;");
+    } finally {
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  test("exports the client payload as JSON with --reporter json", async () => {
+    const outputDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    const outputFile = path.join(outputDir, "report.json");
+    try {
+      await executeCLI([
+        "--reporter",
+        "json",
+        "--format",
+        "client",
+        "--output",
+        outputFile,
+      ]);
+      await waitFor(() =>
+        readFile(outputFile, "utf8").then(
+          (content) => content.endsWith("\n"),
+          () => false,
+        ),
+      );
+
+      const payload = JSON.parse(await readFile(outputFile, "utf8"));
+      expect(payload.summary.packageCount).toBe(0);
+      expect(payload.insights.cycles.edges).toEqual([]);
+      expect(startLiveUiServer).not.toHaveBeenCalled();
+    } finally {
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  test("infers the reporter from the output file extension", async () => {
+    const outputDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    const outputFile = path.join(outputDir, "report.json");
+    try {
+      await executeCLI(["-o", outputFile, "--format", "client"]);
+      await waitFor(() =>
+        readFile(outputFile, "utf8").then(
+          (content) => content.endsWith("\n"),
+          () => false,
+        ),
+      );
+
+      const payload = JSON.parse(await readFile(outputFile, "utf8"));
+      expect(payload.summary.packageCount).toBe(0);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    } finally {
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects --format without the json reporter", async () => {
+    await executeCLI(["--format", "client"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+    await executeCLI(["--reporter", "markdown", "--format", "raw"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 1);
+
+    expect(processExitSpy).toHaveBeenCalledTimes(2);
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(startLiveUiServer).not.toHaveBeenCalled();
+    expect(generateDependencyReport).not.toHaveBeenCalled();
+  });
+
+  test("streams the raw report to stdout when no output file is given", async () => {
+    const writes: string[] = [];
+    const stdoutSpy = spyOn(process.stdout, "write").mockImplementation(((
+      chunk: string,
+    ) => {
+      writes.push(String(chunk));
+      return true;
+    }) as any);
+    try {
+      await executeCLI(["--reporter", "json"]);
+      await waitFor(() => writes.length > 0);
+
+      expect(JSON.parse(writes.join(""))).toEqual({ rootDir: expect.any(String), packages: [] });
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+    } finally {
+      stdoutSpy.mockRestore();
+    }
+  });
+
+  test("rejects unknown reporters, formats and graph depths", async () => {
+    await executeCLI(["--reporter", "pdf"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+    await executeCLI(["--reporter", "json", "--format", "yaml"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 1);
+    await executeCLI(["--reporter", "mermaid", "--depth", "two"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 2);
+
+    expect(processExitSpy).toHaveBeenCalledTimes(3);
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(generateDependencyReport).not.toHaveBeenCalled();
+  });
+
+  test("check exits with code 1 when findings exceed the threshold", async () => {
+    generateDependencyReport.mockResolvedValueOnce({
+      rootDir: "/workspace",
+      packages: [
+        {
+          name: "pkg-a",
+          relativeDir: "packages/a",
+          dependencies: ["pkg-b"],
+          declaredDeps: [],
+          undeclaredDeps: ["pkg-b"],
+          cyclicDeps: [],
+          dependencyDetails: [
+            { name: "pkg-b", files: ["src/index.ts"], fileCount: 1 },
+          ],
+          externalDependencies: [],
+          undeclaredExternalDeps: [],
+          unusedExternalDeps: [],
+          references: 0,
+        },
+      ],
+    } as any);
+
+    await executeCLI(["check", "--max-undeclared", "0"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(startLiveUiServer).not.toHaveBeenCalled();
+    const logged = consoleLogSpy.mock.calls.map((call) => call.join(" "));
+    expect(logged.some((line) => line.includes("pkg-a -> pkg-b"))).toBe(true);
+    expect(
+      logged.some((line) => line.includes("packages/a/src/index.ts")),
+    ).toBe(true);
+  });
+
+  test("check exits with code 0 when every category is within its max", async () => {
+    await executeCLI(["check"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(0);
+  });
+
+  test("check --update-baseline records findings that later runs accept", async () => {
+    const rootDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    const report = {
+      rootDir,
+      packages: [
+        {
+          name: "pkg-a",
+          relativeDir: "packages/a",
+          dependencies: ["pkg-b"],
+          declaredDeps: [],
+          undeclaredDeps: ["pkg-b"],
+          cyclicDeps: [],
+          dependencyDetails: [
+            { name: "pkg-b", files: ["src/index.ts"], fileCount: 1 },
+          ],
+          externalDependencies: [],
+          undeclaredExternalDeps: [],
+          unusedExternalDeps: [],
+          references: 0,
+        },
+      ],
+    } as any;
+    try {
+      generateDependencyReport.mockResolvedValueOnce(report);
+      await executeCLI(["check", rootDir, "--update-baseline"]);
+      await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+      const baseline = JSON.parse(
+        await readFile(path.join(rootDir, "retracify-baseline.json"), "utf8"),
+      );
+      expect(baseline.findings.undeclaredDeps).toEqual(["pkg-a -> pkg-b"]);
+
+      processExitSpy.mockClear();
+      generateDependencyReport.mockResolvedValueOnce(report);
+      await executeCLI(["check", rootDir, "--max-undeclared", "0"]);
+      await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  test("check --update-baseline only drops entries unless --accept-new is given", async () => {
+    const rootDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    const baselineFile = path.join(rootDir, "retracify-baseline.json");
+    const readEntries = async () =>
+      JSON.parse(await readFile(baselineFile, "utf8")).findings.undeclaredDeps;
+    const report = {
+      rootDir,
+      packages: [
+        {
+          name: "pkg-a",
+          relativeDir: "packages/a",
+          dependencies: ["pkg-c"],
+          declaredDeps: [],
+          undeclaredDeps: ["pkg-c"],
+          cyclicDeps: [],
+          dependencyDetails: [
+            { name: "pkg-c", files: ["src/index.ts"], fileCount: 1 },
+          ],
+          externalDependencies: [],
+          undeclaredExternalDeps: [],
+          unusedExternalDeps: [],
+          references: 0,
+        },
+      ],
+    } as any;
+    try {
+      await writeFile(
+        baselineFile,
+        JSON.stringify({
+          version: 1,
+          findings: { undeclaredDeps: ["pkg-a -> pkg-b"] },
+        }),
+      );
+      generateDependencyReport.mockResolvedValueOnce(report);
+      await executeCLI(["check", rootDir, "--update-baseline"]);
+      await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+      expect(await readEntries()).toBeUndefined();
+
+      processExitSpy.mockClear();
+      generateDependencyReport.mockResolvedValueOnce(report);
+      await executeCLI(["check", rootDir, "--accept-new"]);
+      await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+      expect(await readEntries()).toEqual(["pkg-a -> pkg-c"]);
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  test("diff requires a base ref", async () => {
+    await executeCLI(["diff"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(generateDependencyReport).not.toHaveBeenCalled();
+  });
+
+  test("why prints the import sites behind a dependency", async () => {
+    generateDependencyReport.mockResolvedValueOnce({
+      rootDir: "/workspace",
+      packages: [
+        {
+          name: "pkg-a",
+          relativeDir: "packages/a",
+          declaredVersionRanges: {},
+          dependencyDetails: [
+            {
+              name: "pkg-b",
+              files: ["src/index.ts"],
+              fileCount: 1,
+              references: [
+                {
+                  file: "src/index.ts",
+                  line: 3,
+                  column: 8,
+                  specifier: "~b",
+                  isTypeOnly: false,
+                  resolvedVia: "alias",
+                },
+              ],
+            },
+          ],
+          externalDependencyDetails: [],
+        },
+        { name: "pkg-b", relativeDir: "packages/b" },
+      ],
+    } as any);
+
+    await executeCLI(["why", "pkg-a", "pkg-b"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(0);
+    const logged = consoleLogSpy.mock.calls.map((call) => call.join(" "));
+    expect(logged).toContain("packages/a/src/index.ts");
+    expect(
+      logged.some(
+        (line) => line.includes('"~b"') && line.includes("tsconfig path alias"),
+      ),
+    ).toBe(true);
+
+    processExitSpy.mockClear();
+    await executeCLI(["why", "pkg-b", "pkg-a"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  test("path rejects an invalid --max-paths value", async () => {
+    await executeCLI(["path", "pkg-a", "pkg-b", "--all", "--max-paths", "0"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(generateDependencyReport).not.toHaveBeenCalled();
+  });
+
+  test("affected prints the changed package and its dependents", async () => {
+    const stdoutSpy = spyOn(process.stdout, "write").mockImplementation(
+      (() => true) as any,
+    );
+    try {
+      generateDependencyReport.mockResolvedValueOnce({
+        rootDir: "/workspace",
+        packages: [
+          { name: "pkg-a", relativeDir: "packages/a", dependencies: ["pkg-b"] },
+          { name: "pkg-b", relativeDir: "packages/b", dependencies: [] },
+        ],
+      } as any);
+
+      await executeCLI([
+        "affected",
+        "--root",
+        "/workspace",
+        "/workspace/packages/b/src/index.ts",
+      ]);
+      await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+      expect(stdoutSpy.mock.calls.map((call) => call[0])).toEqual([
+        "pkg-a\n",
+        "pkg-b\n",
+      ]);
+    } finally {
+      stdoutSpy.mockRestore();
+    }
+  });
+
+  test("affected requires a source of changed files", async () => {
+    await executeCLI(["affected"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(generateDependencyReport).not.toHaveBeenCalled();
+  });
+
+  test("check rejects invalid thresholds", async () => {
+    await executeCLI(["check", "--max-cycles", "-1"]);
+    await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(generateDependencyReport).not.toHaveBeenCalled();
+  });
+
+  test("reads server defaults from the project config", async () => {
+    const rootDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    try {
+      await writeFile(
+        path.join(rootDir, "retracify.config.json"),
+        JSON.stringify({ server: { port: 5123, open: false } }),
+        "utf8",
+      );
+      startLiveUiServer.mockResolvedValue();
+
+      await executeCLI([rootDir, "--host", "0.0.0.0"]);
+      await waitFor(() => startLiveUiServer.mock.calls.length > 0);
+
+      expect(startLiveUiServer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          port: 5123,
+          host: "0.0.0.0",
+          autoOpen: false,
+        }),
+      );
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  test("exits with a descriptive error for an invalid config", async () => {
+    const rootDir = await mkdtemp(path.join(os.tmpdir(), "retracify-cli-"));
+    try {
+      await writeFile(
+        path.join(rootDir, ".retracifyrc"),
+        JSON.stringify({ server: { port: "80" } }),
+        "utf8",
+      );
+
+      await executeCLI([rootDir]);
+      await waitFor(() => processExitSpy.mock.calls.length > 0);
+
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+      expect(startLiveUiServer).not.toHaveBeenCalled();
+      const errors = consoleErrorSpy.mock.calls.map((call) => call.join(" "));
+      expect(errors.some((line) => line.includes('"server.port"'))).toBe(true);
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
 });
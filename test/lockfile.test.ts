@@ -0,0 +1,237 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import path from "path";
+import { writeFile } from "fs/promises";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import { evaluateCheck } from "../src/check";
+import {
+  findLockfileIssues,
+  parseLockfile,
+  resolveInstalledVersions,
+} from "../src/lockfile";
+import type { DependencyReport } from "../src/types";
+
+const web = { name: "@acme/web", relativeDir: "apps/web" };
+const admin = { name: "@acme/admin", relativeDir: "apps/admin" };
+
+describe("lockfile.ts - parseLockfile", () => {
+  test("reads pnpm importers and package keys", () => {
+    const lockfile = parseLockfile(
+      [
+        "lockfileVersion: '9.0'",
+        "",
+        "importers:",
+        "",
+        "  apps/web:",
+        "    dependencies:",
+        "      zod:",
+        "        specifier: ^3.20.0",
+        "        version: 3.22.4",
+        "      react-dom:",
+        "        specifier: ^18.0.0",
+        "        version: 18.2.0(react@18.2.0)",
+        "      '@acme/ui':",
+        "        specifier: workspace:*",
+        "        version: link:../../packages/ui",
+        "",
+        "packages:",
+        "",
+        "  zod@3.21.0:",
+        "    resolution: {integrity: sha512-a}",
+        "  zod@3.22.4:",
+        "    resolution: {integrity: sha512-b}",
+        "  '@types/react@18.2.0':",
+        "    resolution: {integrity: sha512-c}",
+      ].join("\n"),
+      "pnpm-lock.yaml",
+      "pnpm",
+    );
+
+    expect(lockfile.installed.get("zod")).toEqual(["3.21.0", "3.22.4"]);
+    expect(lockfile.installed.get("@types/react")).toEqual(["18.2.0"]);
+    expect(lockfile.installed.has("@acme/ui")).toBe(false);
+    expect(resolveInstalledVersions(lockfile, web, "zod")).toEqual(["3.22.4"]);
+    expect(resolveInstalledVersions(lockfile, web, "react-dom")).toEqual([
+      "18.2.0",
+    ]);
+    expect(resolveInstalledVersions(lockfile, admin, "zod")).toEqual([]);
+  });
+
+  test("resolves npm install paths from the package up to the root", () => {
+    const lockfile = parseLockfile(
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": { name: "root" },
+          "apps/web": { name: "@acme/web", version: "1.0.0" },
+          "node_modules/@acme/web": { resolved: "apps/web", link: true },
+          "node_modules/zod": { version: "3.22.4" },
+          "apps/web/node_modules/zod": { version: "3.21.0" },
+        },
+      }),
+      "package-lock.json",
+      "npm",
+    );
+
+    expect(resolveInstalledVersions(lockfile, web, "zod")).toEqual(["3.21.0"]);
+    expect(resolveInstalledVersions(lockfile, admin, "zod")).toEqual([
+      "3.22.4",
+    ]);
+    expect(lockfile.installed.has("@acme/web")).toBe(false);
+  });
+
+  test("matches yarn descriptors by declared range", () => {
+    const lockfile = parseLockfile(
+      [
+        "# yarn lockfile v1",
+        "",
+        '"zod@^3.20.0", zod@^3.22.0:',
+        '  version "3.22.4"',
+        "",
+        "zod@~3.21.0:",
+        '  version "3.21.4"',
+        '  resolved "https://registry.yarnpkg.com/zod/-/zod-3.21.4.tgz"',
+      ].join("\n"),
+      "yarn.lock",
+      "yarn",
+    );
+
+    expect(resolveInstalledVersions(lockfile, web, "zod", "^3.22.0")).toEqual([
+      "3.22.4",
+    ]);
+    expect(resolveInstalledVersions(lockfile, web, "zod", "~3.21.0")).toEqual([
+      "3.21.4",
+    ]);
+    expect(resolveInstalledVersions(lockfile, web, "zod")).toEqual([]);
+  });
+
+  test("reads bun.lock with trailing commas and per-package keys", () => {
+    const lockfile = parseLockfile(
+      [
+        "{",
+        '  "lockfileVersion": 1,',
+        '  "packages": {',
+        '    "@acme/web": ["@acme/web@workspace:apps/web"],',
+        '    "zod": ["zod@3.22.4", "", {}, "sha512-b"],',
+        '    "@acme/web/zod": ["zod@3.21.0", "", {}, "sha512-a"],',
+        "  },",
+        "}",
+      ].join("\n"),
+      "bun.lock",
+      "bun",
+    );
+
+    expect(resolveInstalledVersions(lockfile, web, "zod")).toEqual(["3.21.0"]);
+    expect(resolveInstalledVersions(lockfile, admin, "zod")).toEqual([
+      "3.22.4",
+    ]);
+  });
+});
+
+describe("lockfile.ts - findLockfileIssues", () => {
+  test("lists duplicated installs and ranges the lockfile no longer satisfies", () => {
+    const external = (
+      name: string,
+      resolvedVersions: string[],
+      installedVersions: string[],
+    ) => ({ name, resolvedVersions, installedVersions });
+
+    const issues = findLockfileIssues([
+      {
+        name: "@acme/web",
+        declaredVersionRanges: { zod: "^3.22.0", react: "^18.0.0" },
+        externalDependencies: [
+          external("zod", ["3.21.0"], ["3.21.0", "3.22.4"]),
+          external("react", ["18.2.0"], ["18.2.0"]),
+        ],
+      },
+      {
+        name: "@acme/admin",
+        declaredVersionRanges: { zod: "^3.22.0" },
+        externalDependencies: [
+          external("zod", ["3.22.4"], ["3.21.0", "3.22.4"]),
+        ],
+      },
+    ]);
+
+    expect(issues.duplicates).toEqual([
+      {
+        name: "zod",
+        versions: ["3.21.0", "3.22.4"],
+        packages: ["@acme/admin", "@acme/web"],
+      },
+    ]);
+    expect(issues.staleRanges).toEqual([
+      {
+        packageName: "@acme/web",
+        dependency: "zod",
+        range: "^3.22.0",
+        resolvedVersions: ["3.21.0"],
+      },
+    ]);
+  });
+});
+
+describe("lockfile.ts - report integration", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    await writeFile(
+      path.join(fixture.rootDir, "pnpm-lock.yaml"),
+      [
+        "lockfileVersion: '9.0'",
+        "importers:",
+        "  apps/app-one:",
+        "    dependencies:",
+        "      react:",
+        "        specifier: ^18.0.0",
+        "        version: 18.2.0",
+        "  apps/app-two:",
+        "    dependencies:",
+        "      react:",
+        "        specifier: ^18.0.0",
+        "        version: 17.0.2",
+        "packages:",
+        "  react@17.0.2:",
+        "    resolution: {integrity: sha512-a}",
+        "  react@18.2.0:",
+        "    resolution: {integrity: sha512-b}",
+      ].join("\n"),
+    );
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("attaches resolved versions to external dependencies", () => {
+    const appOne = report.packages.find(
+      (pkg) => pkg.name === "@workspace/app-one",
+    )!;
+    const react = appOne.externalDependencies.find(
+      (dep) => dep.name === "react",
+    );
+
+    expect(react?.resolvedVersions).toEqual(["18.2.0"]);
+    expect(react?.installedVersions).toEqual(["17.0.2", "18.2.0"]);
+  });
+
+  test("check reports ranges the lockfile no longer satisfies", () => {
+    const result = evaluateCheck(report, { staleLockfileRanges: 0 });
+
+    expect(result.passed).toBe(false);
+    expect(result.categories[0].findings).toEqual([
+      {
+        category: "staleLockfileRanges",
+        packageName: "@workspace/app-two",
+        target: "react",
+        files: ["apps/app-two/package.json"],
+        detail: "^18.0.0 but the lockfile installs 17.0.2",
+      },
+    ]);
+  });
+});
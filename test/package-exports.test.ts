@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import path from "path";
+import { writeFile } from "fs/promises";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import { evaluateCheck } from "../src/check";
+import { importSubpath, isExportedSubpath } from "../src/package-exports";
+import type { DependencyReport } from "../src/types";
+
+describe("package-exports.ts - isExportedSubpath", () => {
+  const exportsField = {
+    ".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+    "./button": "./dist/button.js",
+    "./icons/*": "./dist/icons/*.js",
+    "./icons/internal/*": null,
+    "./styles/": "./dist/styles/",
+  };
+
+  test.each([
+    [".", true],
+    ["./button", true],
+    ["./icons/arrow", true],
+    ["./icons/internal/sprite", false],
+    ["./styles/base.css", true],
+    ["./src/internal/button", false],
+    ["./package.json", false],
+  ])("%s exported: %p", (subpath, expected) => {
+    expect(isExportedSubpath(exportsField, subpath)).toBe(expected);
+  });
+
+  test("treats strings, arrays and condition maps as the root export", () => {
+    expect(isExportedSubpath("./dist/index.js", ".")).toBe(true);
+    expect(isExportedSubpath("./dist/index.js", "./utils")).toBe(false);
+    expect(
+      isExportedSubpath({ import: "./index.mjs", require: null }, "."),
+    ).toBe(true);
+    expect(isExportedSubpath(["./index.js"], "./index.js")).toBe(false);
+    expect(isExportedSubpath({ ".": { default: null } }, ".")).toBe(false);
+  });
+
+  test("returns null for packages without exports", () => {
+    expect(isExportedSubpath(undefined, "./src/anything")).toBeNull();
+  });
+
+  test("importSubpath strips the package name", () => {
+    expect(importSubpath("@acme/ui", "@acme/ui")).toBe(".");
+    expect(importSubpath("@acme/ui/src/button", "@acme/ui")).toBe(
+      "./src/button",
+    );
+  });
+});
+
+describe("package-exports.ts - report integration", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    await writeFile(
+      path.join(fixture.rootDir, "packages/ui/package.json"),
+      JSON.stringify({
+        name: "@workspace/ui",
+        version: "1.0.0",
+        exports: { ".": "./src/index.ts", "./loader": "./src/loader.ts" },
+        dependencies: { "@workspace/utils": "workspace:*" },
+      }),
+    );
+    await writeFile(
+      path.join(fixture.rootDir, "apps/app-two/src/deep.ts"),
+      [
+        `import "@workspace/ui/loader";`,
+        `import "@workspace/ui/src/index";`,
+        `import "@workspace/utils/src/index";`,
+      ].join("\n"),
+    );
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("lists subpaths missing from the target's exports map", () => {
+    const appTwo = report.packages.find(
+      (pkg) => pkg.name === "@workspace/app-two",
+    )!;
+
+    expect(appTwo.deepImportViolations).toEqual([
+      {
+        target: "@workspace/ui",
+        subpath: "./src/index",
+        files: ["src/deep.ts"],
+      },
+    ]);
+  });
+
+  test("check reports deep imports with the importing files", () => {
+    const result = evaluateCheck(report, { deepImports: 0 });
+
+    expect(result.passed).toBe(false);
+    expect(result.categories[0].findings).toEqual([
+      {
+        category: "deepImports",
+        packageName: "@workspace/app-two",
+        target: "@workspace/ui/src/index",
+        files: ["apps/app-two/src/deep.ts"],
+        detail: "./src/index is not exported by @workspace/ui",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import { REPORTERS } from "../src/reporters";
+import type { DependencyReport } from "../src/types";
+
+describe("reporters.ts - export formats", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("markdown summarises metrics, cycles and package issues", async () => {
+    const markdown = await REPORTERS.markdown.render(report, fixture.rootDir, {});
+
+    expect(markdown).toContain("| Packages | 10 |");
+    expect(markdown).toContain(
+      "| `@workspace/platform-core` ⇄ `@workspace/platform-gateway` |",
+    );
+    expect(markdown).toContain(
+      "<summary><code>@workspace/app-two</code> (apps/app-two) – Needs Review</summary>",
+    );
+    expect(markdown).toContain(
+      "- Undeclared workspace dependencies: `@workspace/utils`",
+    );
+    expect(markdown).toContain("- Unused external dependencies: `lodash`");
+    expect(markdown).not.toContain("<code>@workspace/utils</code>");
+    expect(markdown.match(/<details>/g)?.length).toBe(
+      markdown.match(/<\/details>/g)?.length,
+    );
+  });
+
+  test("markdown notes clean workspaces instead of empty sections", async () => {
+    const markdown = await REPORTERS.markdown.render(
+      { rootDir: fixture.rootDir, packages: [] },
+      fixture.rootDir,
+      {},
+    );
+
+    expect(markdown).toContain("_No dependency cycles._");
+    expect(markdown).toContain("_No package issues._");
+  });
+
+  test("sarif points import findings at the specifier and unused ones at package.json", async () => {
+    const sarif = JSON.parse(
+      await REPORTERS.sarif.render(report, fixture.rootDir, {}),
+    );
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe("2.1.0");
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      "RTF001",
+      "RTF002",
+      "RTF003",
+      "RTF004",
+    ]);
+
+    const undeclared = run.results.find(
+      (result: any) =>
+        result.ruleId === "RTF001" &&
+        result.properties.dependency === "@workspace/utils",
+    );
+    expect(undeclared.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "apps/app-two/src/index.ts", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 2, startColumn: 8, endColumn: 16 },
+    });
+
+    const cycles = run.results.filter((result: any) => result.ruleId === "RTF003");
+    expect(cycles).toHaveLength(2);
+
+    const unused = run.results.find(
+      (result: any) =>
+        result.ruleId === "RTF004" && result.properties.dependency === "lodash",
+    );
+    expect(unused.locations[0].physicalLocation.artifactLocation.uri).toBe(
+      "apps/app-one/package.json",
+    );
+    expect(unused.locations[0].physicalLocation.region.startLine).toBeGreaterThan(1);
+  });
+
+  test("csv flattens external dependencies with their declared range", async () => {
+    const csv = await REPORTERS.csv.render(report, fixture.rootDir, {});
+    const lines = csv.trim().split("\n");
+
+    expect(lines[0]).toBe(
+      "package,dependency,declaredInDependencies,declaredInDevDependencies,declaredInPeerDependencies,declaredInOptionalDependencies,usageCount,isToolingOnly,isLikelyTypePackage,versionRange",
+    );
+    expect(lines).toContain(
+      "@workspace/app-one,lodash,true,false,false,false,0,false,false,^4.17.21",
+    );
+    expect(lines).toContain(
+      "@workspace/app-one,@types/react,false,true,false,false,0,false,true,^18.0.0",
+    );
+    expect(lines).toContain("@workspace/app-two,axios,false,false,false,false,1,false,false,");
+  });
+
+  test("csv quotes fields containing separators", async () => {
+    const [pkg] = report.packages;
+    const csv = await REPORTERS.csv.render(
+      {
+        rootDir: report.rootDir,
+        packages: [
+          {
+            ...pkg,
+            name: "pkg",
+            externalDependencies: [
+              {
+                name: "legacy",
+                isDeclared: true,
+                isUsed: true,
+                usageCount: 1,
+                declaredInDependencies: true,
+                declaredInDevDependencies: false,
+                declaredInPeerDependencies: false,
+                declaredInOptionalDependencies: true,
+                isOptionalPeer: false,
+                isLikelyTypePackage: false,
+                isToolingOnly: false,
+              },
+            ],
+            declaredVersionRanges: { legacy: '>=1, <2 || "next"' },
+          },
+        ],
+      },
+      fixture.rootDir,
+      {},
+    );
+
+    expect(csv.trim().split("\n")[1]).toBe(
+      'pkg,legacy,true,false,false,true,1,false,false,">=1, <2 || ""next"""',
+    );
+  });
+});
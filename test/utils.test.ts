@@ -7,7 +7,11 @@ import {
   normalizeImportSpecifier,
   renderHtmlReport,
   discoverPackages,
+  discoverWorkspace,
+  readWorkspaceGlobs,
   collectSourceFiles,
+  globToRegExp,
+  matchesGlobPatterns,
 } from "../src/utils";
 
 const TEMPLATE_PATH = path.resolve("templates", "report.ejs");
@@ -20,6 +24,18 @@ describe("utils.ts - Pure Functions", () => {
     expect(normalizeImportSpecifier("@scope/name/file")).toBe("@scope/name");
   });
 
+  test("globToRegExp and matchesGlobPatterns follow fast-glob semantics", () => {
+    expect(globToRegExp("/repo/**/fixtures/**").test("/repo/fixtures")).toBe(true);
+    expect(globToRegExp("/repo/**/fixtures/**").test("/repo/a/fixtures/b.ts")).toBe(true);
+    expect(globToRegExp("/repo/src/*.ts").test("/repo/src/nested/a.ts")).toBe(false);
+    expect(globToRegExp("/repo/{apps,packages}/**").test("/repo/apps/web")).toBe(true);
+    expect(globToRegExp("/repo/v?").test("/repo/v1")).toBe(true);
+
+    expect(matchesGlobPatterns("/repo/examples/demo/index.ts", ["/repo/examples"])).toBe(true);
+    expect(matchesGlobPatterns("/repo/src/index.ts", ["/repo/examples"])).toBe(false);
+    expect(matchesGlobPatterns("/repo/src/index.ts", [])).toBe(false);
+  });
+
   test("renderHtmlReport generates markup for packages", async () => {
     const mockReport = {
       rootDir: process.cwd(),
@@ -190,4 +206,98 @@ describe("utils.ts - I/O Functions", () => {
     const discovered = await collectSourceFiles(tempRoot, []);
     expect(discovered.sort()).toEqual(files.sort());
   });
+
+  test("discoverPackages and collectSourceFiles honour include globs", async () => {
+    const appDir = path.join(tempRoot, "apps/web");
+    const exampleDir = path.join(tempRoot, "examples/demo");
+    for (const [dir, name] of [
+      [appDir, "web"],
+      [exampleDir, "demo"],
+    ]) {
+      await mkdir(path.join(dir, "src"), { recursive: true });
+      await writeFile(
+        path.join(dir, "package.json"),
+        JSON.stringify({ name, version: "1.0.0" }),
+        "utf8",
+      );
+      await writeFile(path.join(dir, "src/index.ts"), "export {}", "utf8");
+    }
+    const include = [`${tempRoot}/apps/**`];
+
+    const packages = await discoverPackages(tempRoot, [], undefined, include);
+    expect(packages.map((pkg) => pkg.name)).toEqual(["web"]);
+
+    const files = await collectSourceFiles(tempRoot, [], undefined, include);
+    expect(files).toEqual([path.join(appDir, "src/index.ts")]);
+  });
+
+  test("readWorkspaceGlobs prefers pnpm-workspace.yaml over package.json", async () => {
+    await writeFile(
+      path.join(tempRoot, "package.json"),
+      JSON.stringify({ name: "root", workspaces: { packages: ["libs/*"] } }),
+      "utf8",
+    );
+    expect(await readWorkspaceGlobs(tempRoot)).toEqual(["libs/*"]);
+
+    await writeFile(
+      path.join(tempRoot, "pnpm-workspace.yaml"),
+      [
+        "packages:",
+        "  - 'apps/*'",
+        '  - "packages/**"',
+        "  - '!**/test/**'",
+        "catalog:",
+        "  react: ^18.0.0",
+      ].join("\n"),
+      "utf8",
+    );
+    expect(await readWorkspaceGlobs(tempRoot)).toEqual([
+      "apps/*",
+      "packages/**",
+      "!**/test/**",
+    ]);
+  });
+
+  test("discoverWorkspace lists packages outside the workspace globs separately", async () => {
+    const write = async (dir: string, pkg: object) => {
+      await mkdir(path.join(tempRoot, dir, "src"), { recursive: true });
+      await writeFile(
+        path.join(tempRoot, dir, "package.json"),
+        JSON.stringify(pkg),
+        "utf8",
+      );
+      await writeFile(
+        path.join(tempRoot, dir, "src/index.ts"),
+        "export {}",
+        "utf8",
+      );
+    };
+    await writeFile(
+      path.join(tempRoot, "package.json"),
+      JSON.stringify({ name: "root", workspaces: ["apps/*", "!apps/legacy"] }),
+      "utf8",
+    );
+    await write("apps/web", { name: "web" });
+    await write("apps/legacy", { name: "legacy" });
+    await write("apps/web/examples/demo", { name: "demo" });
+    await write("vendor/patched", {});
+
+    const { packages, strayPackages } = await discoverWorkspace(tempRoot);
+
+    expect(packages.map((pkg) => pkg.name).sort()).toEqual(["root", "web"]);
+    expect(
+      strayPackages.sort((a, b) => a.relativeDir.localeCompare(b.relativeDir)),
+    ).toEqual([
+      { name: "legacy", relativeDir: "apps/legacy" },
+      { name: "demo", relativeDir: "apps/web/examples/demo" },
+      { relativeDir: "vendor/patched" },
+    ]);
+    const web = packages.find((pkg) => pkg.name === "web")!;
+    expect(web.fileCount).toBe(1);
+    expect(web.hasChildPackages).toBe(false);
+
+    const all = await discoverWorkspace(tempRoot, [], undefined, [], true);
+    expect(all.packages).toHaveLength(5);
+    expect(all.strayPackages).toEqual([]);
+  });
 });
@@ -0,0 +1,67 @@
+import { describe, test, expect } from "bun:test";
+import { rangesIntersect } from "../src/semver";
+import { findVersionDrift } from "../src/version-drift";
+
+describe("semver.ts - rangesIntersect", () => {
+  test.each([
+    [["^18.2.0", "^18.0.0"], true],
+    [["^18.2.0", "^17.0.0"], false],
+    [["~1.4.0", ">=1.4.5"], true],
+    [[">1.4.9", "~1.4.0"], true],
+    [[">=1.5.0", "~1.4.0"], false],
+    [["^1.0.0 || ^2.0.0", "2.x"], true],
+    [["1.2.3", "1.2.3"], true],
+  ])("%p intersect: %p", (ranges, expected) => {
+    expect(rangesIntersect(ranges)).toBe(expected);
+  });
+
+  test("returns null when a range cannot be read", () => {
+    expect(rangesIntersect(["^18.0.0", "latest"])).toBeNull();
+  });
+});
+
+describe("version-drift.ts - findVersionDrift", () => {
+  test("lists external dependencies declared with more than one range", () => {
+    const drift = findVersionDrift([
+      {
+        name: "web",
+        declaredVersionRanges: {
+          react: "^18.2.0",
+          lodash: "^4.17.0",
+          ui: "workspace:*",
+        },
+      },
+      {
+        name: "admin",
+        declaredVersionRanges: { react: "^18.2.0", lodash: "^4.17.21" },
+      },
+      {
+        name: "legacy",
+        declaredVersionRanges: { react: "^17.0.0", ui: "^1.0.0" },
+      },
+      {
+        name: "ui",
+        declaredVersionRanges: { react: "^18.2.0", zod: "^3.0.0" },
+      },
+    ]);
+
+    expect(drift).toEqual([
+      {
+        name: "react",
+        kind: "incompatible",
+        ranges: [
+          { range: "^18.2.0", packages: ["admin", "ui", "web"] },
+          { range: "^17.0.0", packages: ["legacy"] },
+        ],
+      },
+      {
+        name: "lodash",
+        kind: "different",
+        ranges: [
+          { range: "^4.17.0", packages: ["web"] },
+          { range: "^4.17.21", packages: ["admin"] },
+        ],
+      },
+    ]);
+  });
+});
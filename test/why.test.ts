@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createFixtureContext, type ProjectFixture } from "./fixtures/shared";
+import { createWorkspaceFixture } from "./fixtures/workspace-project";
+import { generateDependencyReport } from "../src/graph";
+import { explainDependency } from "../src/why";
+import type { DependencyReport } from "../src/types";
+
+describe("why.ts - explainDependency", () => {
+  let fixture: ProjectFixture;
+  let report: DependencyReport;
+
+  beforeAll(async () => {
+    fixture = await createWorkspaceFixture();
+    report = await generateDependencyReport({ rootDir: fixture.rootDir });
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("lists the import sites behind a workspace dependency", () => {
+    expect(explainDependency(report, "@workspace/ui", "@workspace/utils")).toEqual({
+      from: "@workspace/ui",
+      to: "@workspace/utils",
+      kind: "workspace",
+      declaredRange: "workspace:*",
+      declaredAsPeer: false,
+      files: [
+        {
+          file: "packages/ui/src/index.ts",
+          imports: [
+            {
+              line: 1,
+              column: 24,
+              specifier: "@workspace/utils",
+              isTypeOnly: false,
+              resolvedVia: "package",
+            },
+          ],
+        },
+        {
+          file: "packages/ui/src/loader.ts",
+          imports: [
+            {
+              line: 1,
+              column: 22,
+              specifier: "@workspace/utils",
+              isTypeOnly: false,
+              resolvedVia: "package",
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  test("reports path aliases, directories and external packages", () => {
+    const viaAlias = explainDependency(report, "apps/app-two", "packages/utils");
+    expect(viaAlias.to).toBe("@workspace/utils");
+    expect(viaAlias.declaredRange).toBeNull();
+    expect(viaAlias.files[0].imports[0]).toMatchObject({
+      specifier: "~utils",
+      resolvedVia: "alias",
+    });
+
+    const external = explainDependency(report, "@workspace/app-two", "react");
+    expect(external.kind).toBe("external");
+    expect(external.declaredRange).toBe("^18.0.0");
+    expect(external.files.map((entry) => entry.file)).toEqual([
+      "apps/app-two/src/index.ts",
+    ]);
+  });
+
+  test("lists type-only imports that create no dependency edge", () => {
+    const explanation = explainDependency(
+      report,
+      "@workspace/type-only",
+      "@workspace/ui",
+    );
+
+    expect(explanation.files).toHaveLength(1);
+    expect(explanation.files[0].imports).toEqual([
+      expect.objectContaining({
+        specifier: "@workspace/ui",
+        isTypeOnly: true,
+        resolvedVia: "package",
+      }),
+    ]);
+  });
+
+  test("returns no files for missing edges and rejects unknown packages", () => {
+    expect(
+      explainDependency(report, "@workspace/utils", "@workspace/ui").files,
+    ).toEqual([]);
+    expect(() =>
+      explainDependency(report, "@workspace/missing", "react"),
+    ).toThrow('Unknown package "@workspace/missing".');
+  });
+});
+
+describe("why.ts - peer dependencies", () => {
+  test("treats a peer-only dependency as declared", async () => {
+    const context = await createFixtureContext("retracify-why-peer");
+    try {
+      await context.writeFile("package.json", {
+        name: "root",
+        private: true,
+        workspaces: ["packages/*"],
+      });
+      await context.writeFile("packages/a/package.json", {
+        name: "@x/a",
+        version: "1.0.0",
+        peerDependencies: { react: "^18.0.0" },
+      });
+      await context.writeFile(
+        "packages/a/src/index.ts",
+        `import React from "react";\nexport const a = React;\n`,
+      );
+      const report = await generateDependencyReport({
+        rootDir: context.rootDir,
+      });
+
+      const explanation = explainDependency(report, "@x/a", "react");
+      expect(explanation.declaredRange).toBeNull();
+      expect(explanation.declaredAsPeer).toBe(true);
+      expect(explanation.files.map((entry) => entry.file)).toEqual([
+        "packages/a/src/index.ts",
+      ]);
+    } finally {
+      await context.cleanup();
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect } from "bun:test";
+import { satisfiesRange } from "../src/semver";
+import { validateWorkspaceRanges } from "../src/workspace-ranges";
+import type { PkgInfo } from "../src/types";
+
+const pkg = (
+  name: string,
+  dir: string,
+  declaredVersionRanges: Record<string, string> = {},
+  version = "1.4.2",
+): PkgInfo => ({ name, version, dir, declaredVersionRanges, fileCount: 0 });
+
+describe("semver.ts - satisfiesRange", () => {
+  test.each([
+    ["1.4.2", "^1.2.0", true],
+    ["2.0.0", "^1.2.0", false],
+    ["0.2.5", "^0.2.1", true],
+    ["0.3.0", "^0.2.1", false],
+    ["1.4.2", "~1.4.0", true],
+    ["1.5.0", "~1.4", false],
+    ["1.4.2", "1.x", true],
+    ["1.4.2", ">=1.0.0 <1.4.0", false],
+    ["1.4.2", "1.0.0 - 1.4", true],
+    ["1.4.2", "^2.0.0 || ^1.4.0", true],
+    ["2.0.0-beta.1", "^1.0.0", false],
+    ["1.4.2", "*", true],
+  ])("%s satisfies %s: %p", (version, range, expected) => {
+    expect(satisfiesRange(version, range)).toBe(expected);
+  });
+
+  test("returns null for ranges it cannot read", () => {
+    expect(satisfiesRange("1.0.0", "latest")).toBeNull();
+    expect(satisfiesRange("1.0.0", "github:acme/ui")).toBeNull();
+    expect(satisfiesRange("next", "^1.0.0")).toBeNull();
+  });
+});
+
+describe("workspace-ranges.ts - validateWorkspaceRanges", () => {
+  test("flags unsatisfied ranges, mixed protocols and unknown local paths", () => {
+    const issues = validateWorkspaceRanges([
+      pkg("@acme/ui", "/repo/packages/ui"),
+      pkg("@acme/utils", "/repo/packages/utils"),
+      pkg("@acme/web", "/repo/apps/web", {
+        "@acme/ui": "workspace:^",
+        "@acme/utils": "workspace:^2.0.0",
+        legacy: "file:../../vendor/legacy",
+        tarball: "file:../../vendor/pkg.tgz",
+      }),
+      pkg("@acme/admin", "/repo/apps/admin", {
+        "@acme/ui": "^1.0.0",
+        "@acme/utils": "link:../../packages/utils",
+        react: "^18.0.0",
+      }),
+    ]);
+
+    expect(issues.get("@acme/web")).toEqual([
+      {
+        dependency: "@acme/utils",
+        range: "workspace:^2.0.0",
+        kind: "unsatisfiedRange",
+        message: "workspace:^2.0.0 does not match @acme/utils@1.4.2",
+      },
+      {
+        dependency: "legacy",
+        range: "file:../../vendor/legacy",
+        kind: "unknownPath",
+        message: "file:../../vendor/legacy does not point at a workspace package",
+      },
+    ]);
+    expect(issues.get("@acme/admin")).toEqual([
+      {
+        dependency: "@acme/ui",
+        range: "^1.0.0",
+        kind: "mixedProtocol",
+        message:
+          "uses a plain semver range while the workspace uses the workspace: protocol",
+      },
+    ]);
+    expect(issues.get("@acme/ui")).toEqual([]);
+  });
+});